@@ -0,0 +1,184 @@
+import { ChangeDetectorRef, SimpleChange, SimpleChanges } from '@angular/core';
+import {
+  getChangesManager,
+  ManagedChanges,
+  OnInputChange,
+} from '../src/ChangesManager.decorators';
+import { createFakeChangeDetectorRef } from '../src/ChangesManager.testing';
+import { TChangesSummary } from '../src/ChangesManager.types';
+
+describe('ChangesManager decorators', () => {
+  it('should execute the decorated methods through the patched ngOnChanges', async () => {
+    const computeFullName = jest.fn();
+    const computeAge = jest.fn();
+    const ngOnChanges = jest.fn();
+
+    @ManagedChanges({ debounceDelay: null })
+    class MyComponent {
+      name = '';
+      surname = '';
+      dateOfBirth: Date = null;
+
+      constructor(public changeDetectorRef: ChangeDetectorRef) {}
+
+      @OnInputChange<MyComponent>('name', 'surname')
+      computeFullName(changesSummary: TChangesSummary<MyComponent>) {
+        computeFullName(this, changesSummary);
+      }
+
+      @OnInputChange<MyComponent>('dateOfBirth', {
+        validator: ({ dateOfBirth }) => dateOfBirth.currentValue !== null,
+      })
+      computeAge() {
+        computeAge();
+      }
+
+      ngOnChanges(simpleChanges: SimpleChanges) {
+        ngOnChanges(simpleChanges);
+      }
+    }
+
+    const changeDetectorRef = createFakeChangeDetectorRef();
+    const detectChanges = jest.spyOn(changeDetectorRef, 'detectChanges');
+    const component = new MyComponent(changeDetectorRef);
+
+    const simpleChanges = {
+      name: new SimpleChange('', 'johnny', false),
+      surname: new SimpleChange('', 'quesada', false),
+      dateOfBirth: new SimpleChange(new Date(), null, false),
+    } as SimpleChanges;
+
+    component.ngOnChanges(simpleChanges);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    // the group keeps the deduplication of the callbacks
+    expect(computeFullName).toHaveBeenCalledTimes(1);
+    expect(computeFullName).toHaveBeenCalledWith(
+      component,
+      expect.objectContaining({
+        name: expect.objectContaining({ didChange: true }),
+      })
+    );
+
+    expect(computeAge).not.toHaveBeenCalled();
+    expect(ngOnChanges).toHaveBeenCalledWith(simpleChanges);
+    expect(detectChanges).toHaveBeenCalledTimes(1);
+  });
+
+  it('should debounce the decorated method', async () => {
+    const search = jest.fn();
+
+    @ManagedChanges({ debounceDelay: null })
+    class MyComponent {
+      query = '';
+
+      constructor(public changeDetectorRef: ChangeDetectorRef) {}
+
+      @OnInputChange<MyComponent>('query', { debounce: 5 })
+      search(changesSummary: TChangesSummary<MyComponent>) {
+        search(changesSummary.query.currentValue);
+      }
+
+      ngOnChanges(simpleChanges: SimpleChanges) {}
+    }
+
+    const component = new MyComponent(createFakeChangeDetectorRef());
+
+    component.ngOnChanges({
+      query: new SimpleChange('', 'j', false),
+    });
+
+    component.ngOnChanges({
+      query: new SimpleChange('j', 'jo', false),
+    });
+
+    // waits for the debounce of the manager and then for the debounce of the method
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(search).toHaveBeenCalledWith('jo');
+  });
+
+  it('should expose the changes manager and destroy it with the component', () => {
+    @ManagedChanges({ changeDetectorRef: 'cdr' })
+    class MyComponent {
+      name = '';
+
+      constructor(public cdr: ChangeDetectorRef) {}
+
+      ngOnChanges() {}
+    }
+
+    const component = new MyComponent(
+      createFakeChangeDetectorRef()
+    ) as MyComponent & {
+      ngOnDestroy: () => void;
+    };
+
+    const changesManager = getChangesManager(component);
+    const complete = jest.fn();
+
+    changesManager.changes$.subscribe({ complete });
+
+    expect(getChangesManager(component)).toBe(changesManager);
+
+    component.ngOnDestroy();
+
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw a clear error if the class is not decorated', () => {
+    class MyComponent {}
+
+    expect(() => getChangesManager(new MyComponent())).toThrow(
+      'MyComponent is not decorated with @ManagedChanges()'
+    );
+  });
+
+  it('should throw a clear error if the class does not declare the ngOnChanges', () => {
+    expect(() => {
+      @ManagedChanges()
+      class MyComponent {
+        constructor(public changeDetectorRef: ChangeDetectorRef) {}
+      }
+    }).toThrow(
+      'MyComponent should declare the ngOnChanges method to be decorated with @ManagedChanges()'
+    );
+  });
+
+  it('should log the errors of the callbacks instead of rejecting', async () => {
+    const error = new Error('failed');
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    @ManagedChanges({ debounceDelay: NaN })
+    class MyComponent {
+      name = '';
+
+      constructor(public changeDetectorRef: ChangeDetectorRef) {}
+
+      @OnInputChange<MyComponent>('name')
+      computeFullName() {
+        throw error;
+      }
+
+      ngOnChanges(simpleChanges: SimpleChanges) {}
+    }
+
+    const component = new MyComponent(createFakeChangeDetectorRef());
+
+    component.ngOnChanges({ name: new SimpleChange('', 'johnny', false) });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(consoleError).toHaveBeenCalledWith(
+      'ChangesManager: a callback of MyComponent failed',
+      error
+    );
+
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,253 @@
+import {
+  ChangeDetectorRef,
+  Injector,
+  Provider,
+  SimpleChange,
+  SimpleChanges,
+  runInInjectionContext,
+} from '@angular/core';
+import { ChangesManager, injectChangesManager } from '../src/ChangesManager';
+import {
+  ManagedChanges,
+  OnInputChange,
+} from '../src/ChangesManager.decorators';
+import { provideChangesManagerDefaults } from '../src/ChangesManager.providers';
+import {
+  createFakeChangeDetectorRef,
+  simulateInputs,
+} from '../src/ChangesManager.testing';
+
+class MyComponent {
+  name = '';
+  tags: string[] = [];
+}
+
+const createInjector = (providers: Provider[], parent?: Injector) =>
+  Injector.create({ providers, parent });
+
+describe('ChangesManager providers', () => {
+  it('should inject the change detector and the DestroyRef of the injection context', async () => {
+    const changeDetectorRef = createFakeChangeDetectorRef();
+    const detectChanges = jest.spyOn(changeDetectorRef, 'detectChanges');
+    const injector = createInjector([
+      { provide: ChangeDetectorRef, useValue: changeDetectorRef },
+    ]);
+
+    const onNameChange = jest.fn();
+    const component = new MyComponent();
+
+    const changesManager = runInInjectionContext(injector, () =>
+      injectChangesManager<MyComponent>({
+        component,
+        debounceDelay: NaN,
+        callbacks: { name: onNameChange },
+      })
+    );
+
+    await simulateInputs(changesManager, { name: [undefined, ''] });
+    await simulateInputs(changesManager, { name: ['', 'johnny'] });
+
+    expect(onNameChange).toHaveBeenCalledTimes(1);
+    expect(detectChanges).toHaveBeenCalledTimes(1);
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    // the injector is the DestroyRef of the context, destroying it destroys the manager
+    (injector as unknown as { destroy: () => void }).destroy();
+
+    await simulateInputs(changesManager, { name: ['johnny', 'tony'] });
+
+    expect(onNameChange).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    warn.mockRestore();
+  });
+
+  it('should throw if the factory is executed outside of an injection context', () => {
+    expect(() =>
+      injectChangesManager<MyComponent>({ component: new MyComponent() })
+    ).toThrow();
+  });
+
+  it('should use the provided defaults for the parameters which are not passed', async () => {
+    const changeDetectorRef = createFakeChangeDetectorRef();
+    const markForCheck = jest.spyOn(changeDetectorRef, 'markForCheck');
+    const detectChanges = jest.spyOn(changeDetectorRef, 'detectChanges');
+    const injector = createInjector([
+      { provide: ChangeDetectorRef, useValue: changeDetectorRef },
+      provideChangesManagerDefaults({
+        strict: false,
+        debounceDelay: NaN,
+        detection: 'markForCheck',
+        equality: (previousValue, currentValue) =>
+          JSON.stringify(previousValue) === JSON.stringify(currentValue),
+      }),
+    ]);
+
+    const onTagsChange = jest.fn();
+    const component = new MyComponent();
+
+    const changesManager = runInInjectionContext(
+      injector,
+      () =>
+        new ChangesManager<MyComponent>({
+          component,
+          changeDetectorRef,
+          callbacks: { tags: onTagsChange },
+        })
+    );
+
+    // the debounce is disabled by the defaults
+    await simulateInputs(changesManager, { tags: [undefined, ['a']] });
+    const changesSummary = await simulateInputs(changesManager, {
+      tags: [['a'], ['a']],
+    });
+
+    expect(changesSummary.tags.didChange).toBe(false);
+    expect(onTagsChange).not.toHaveBeenCalled();
+
+    // the strict mode is disabled, so the view is updated by each simulation even without changes
+    expect(markForCheck).toHaveBeenCalledTimes(2);
+    expect(detectChanges).not.toHaveBeenCalled();
+  });
+
+  it('should give priority to the parameters of the manager over the defaults', async () => {
+    const changeDetectorRef = createFakeChangeDetectorRef();
+    const markForCheck = jest.spyOn(changeDetectorRef, 'markForCheck');
+    const detectChanges = jest.spyOn(changeDetectorRef, 'detectChanges');
+    const injector = createInjector([
+      provideChangesManagerDefaults({
+        debounceDelay: NaN,
+        detection: 'markForCheck',
+      }),
+    ]);
+
+    const changesManager = runInInjectionContext(
+      injector,
+      () =>
+        new ChangesManager<MyComponent>({
+          component: new MyComponent(),
+          changeDetectorRef,
+          detection: 'detectChanges',
+        })
+    );
+
+    await simulateInputs(changesManager, { name: [undefined, ''] });
+    await simulateInputs(changesManager, { name: ['', 'johnny'] });
+
+    expect(detectChanges).toHaveBeenCalledTimes(1);
+    expect(markForCheck).not.toHaveBeenCalled();
+  });
+
+  it('should merge the defaults of the parent injectors', async () => {
+    const changeDetectorRef = createFakeChangeDetectorRef();
+    const markForCheck = jest.spyOn(changeDetectorRef, 'markForCheck');
+    const detectChanges = jest.spyOn(changeDetectorRef, 'detectChanges');
+    const parent = createInjector([
+      provideChangesManagerDefaults({
+        debounceDelay: NaN,
+        detection: 'markForCheck',
+      }),
+    ]);
+    const injector = createInjector(
+      [provideChangesManagerDefaults({ detection: 'none' })],
+      parent
+    );
+
+    const onNameChange = jest.fn();
+
+    const changesManager = runInInjectionContext(
+      injector,
+      () =>
+        new ChangesManager<MyComponent>({
+          component: new MyComponent(),
+          changeDetectorRef,
+          callbacks: { name: onNameChange },
+        })
+    );
+
+    simulateInputs(changesManager, { name: [undefined, ''] });
+    simulateInputs(changesManager, { name: ['', 'johnny'] });
+
+    // the debounce disabled by the parent is kept, so the callback is executed synchronously
+    expect(onNameChange).toHaveBeenCalledTimes(1);
+    expect(markForCheck).not.toHaveBeenCalled();
+    expect(detectChanges).not.toHaveBeenCalled();
+  });
+
+  it('should capture the defaults and the DestroyRef when a decorated component is constructed', () => {
+    const onNameChange = jest.fn();
+
+    @ManagedChanges({ strict: true })
+    class MyDecoratedComponent {
+      name = '';
+
+      constructor(public changeDetectorRef: ChangeDetectorRef) {}
+
+      @OnInputChange<MyDecoratedComponent>('name')
+      onNameChange() {
+        onNameChange();
+      }
+
+      ngOnChanges(simpleChanges: SimpleChanges) {}
+    }
+
+    const changeDetectorRef = createFakeChangeDetectorRef();
+    const markForCheck = jest.spyOn(changeDetectorRef, 'markForCheck');
+    const injector = createInjector([
+      provideChangesManagerDefaults({
+        strict: false,
+        debounceDelay: NaN,
+        detection: 'markForCheck',
+      }),
+    ]);
+
+    const component = runInInjectionContext(
+      injector,
+      () => new MyDecoratedComponent(changeDetectorRef)
+    );
+
+    // the manager is created by the ngOnChanges, outside of the injection context
+    component.ngOnChanges({ name: new SimpleChange('', 'johnny', false) });
+
+    expect(onNameChange).toHaveBeenCalledTimes(1);
+    expect(markForCheck).toHaveBeenCalledTimes(1);
+
+    // the strict option of the decorator has priority over the defaults, so the view isn't updated without changes
+    component.ngOnChanges({
+      name: new SimpleChange('johnny', 'johnny', false),
+    });
+
+    expect(markForCheck).toHaveBeenCalledTimes(1);
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    (injector as unknown as { destroy: () => void }).destroy();
+
+    component.ngOnChanges({ name: new SimpleChange('johnny', 'tony', false) });
+
+    expect(onNameChange).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    warn.mockRestore();
+  });
+
+  it('should ignore the defaults outside of an injection context', async () => {
+    const onNameChange = jest.fn();
+
+    const changesManager = new ChangesManager<MyComponent>({
+      component: new MyComponent(),
+      changeDetectorRef: createFakeChangeDetectorRef(),
+      callbacks: { name: onNameChange },
+    });
+
+    await simulateInputs(changesManager, { name: [undefined, ''] });
+    simulateInputs(changesManager, { name: ['', 'johnny'] });
+
+    expect(onNameChange).not.toHaveBeenCalled();
+
+    changesManager.flush();
+
+    expect(onNameChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,9 +1,27 @@
-import { ChangeDetectorRef, SimpleChange, SimpleChanges } from '@angular/core';
+import {
+  ChangeDetectorRef,
+  DestroyRef,
+  SimpleChange,
+  SimpleChanges,
+  signal,
+} from '@angular/core';
 import { ChangesManager } from '../src/ChangesManager';
+import { ChangesManagerCore } from '../src/ChangesManager.core';
 import {
   TCallbacksConfigParameter,
   TChangesSummary,
+  TComparatorsConfig,
+  TDetectionStrategy,
+  TErrorHandler,
+  TGroupChangesSummary,
+  TErrorPolicy,
+  TTransformsConfig,
 } from '../src/ChangesManager.types';
+import { comparators } from '../src/ChangesManager.comparators';
+import { validators } from '../src/ChangesManager.validators';
+import { detectionScheduler } from '../src/ChangesManager.scheduler';
+import { transforms } from '../src/ChangesManager.transforms';
+import { groupsOf } from '../src/ChangesManager.groups';
 import { createDecoupledPromise } from 'cancelable-promise-jq';
 
 const createChangeDetectorRef = () => {
@@ -20,6 +38,18 @@ const createChangesManager = <TComponent extends object>(parameters: {
   changeDetectorRef: ChangeDetectorRef;
   callbacks?: TCallbacksConfigParameter<TComponent>;
   bedounceDelay?: number;
+  debounceDelay?: number | null;
+  destroyRef?: DestroyRef;
+  comparators?: TComparatorsConfig<TComponent>;
+  transforms?: TTransformsConfig<TComponent>;
+  historySize?: number;
+  snapshotsSize?: number;
+  runOnFirstChange?: boolean;
+  onError?: TErrorHandler<TComponent>;
+  errorPolicy?: TErrorPolicy;
+  detection?: TDetectionStrategy<TComponent>;
+  batchDetection?: boolean;
+  diagnostics?: boolean;
 }) => {
   const changesManager = new ChangesManager(parameters);
 
@@ -289,4 +319,2887 @@ describe('ChangesManager', () => {
 
     return promise;
   });
+
+  describe('comparators', () => {
+    it('should avoid executing the callback if the comparator of the constructor considers the values equal', () => {
+      const { promise, ...tools } = createDecoupledPromise();
+
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        options: ['a', 'b'],
+      };
+
+      const callback1 = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        comparators: {
+          options: comparators.shallow,
+        },
+        callbacks: {
+          options: callback1,
+        },
+      });
+
+      const simpleChanges = {
+        options: createSimpleChangeObject(['a', 'b'], ['a', 'b']),
+      } as SimpleChanges;
+
+      changesManager.manageChanges(simpleChanges);
+
+      setTimeout(() => {
+        expect(callback1).not.toHaveBeenCalled();
+        expect(
+          changesManager.changeDetectorRef.detectChanges
+        ).not.toHaveBeenCalled();
+
+        tools.resolve();
+      }, 0);
+
+      return promise;
+    });
+
+    it('should use the comparator of the callbacks configuration for the properties of the group', () => {
+      const { promise, ...tools } = createDecoupledPromise();
+
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        config: { filters: { date: '2023-01-01' } },
+        users: [{ id: 1, name: 'johnny' }],
+      };
+
+      const callback1 = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        callbacks: [
+          [['config'], { callback: callback1, comparator: comparators.deep }],
+          [
+            ['users'],
+            { callback: callback1, comparator: comparators.byKey('id') },
+          ],
+        ],
+      });
+
+      changesManager.manageChanges({
+        config: createSimpleChangeObject(
+          { filters: { date: '2023-01-01' } },
+          { filters: { date: '2023-01-01' } }
+        ),
+        users: createSimpleChangeObject(
+          [{ id: 1, name: 'johnny' }],
+          [{ id: 1, name: 'johnny q' }]
+        ),
+      } as SimpleChanges);
+
+      setTimeout(() => {
+        expect(callback1).not.toHaveBeenCalled();
+
+        changesManager.manageChanges({
+          config: createSimpleChangeObject(
+            { filters: { date: '2023-01-01' } },
+            { filters: { date: '2023-01-02' } }
+          ),
+        } as SimpleChanges);
+
+        setTimeout(() => {
+          expect(callback1).toHaveBeenCalledTimes(1);
+
+          tools.resolve();
+        }, 0);
+      }, 0);
+
+      return promise;
+    });
+
+    it('should compare values with the built-in comparators', () => {
+      expect(comparators.shallow({ a: 1 }, { a: 1 })).toBe(true);
+      expect(comparators.time(new Date(0), new Date(0))).toBe(true);
+      expect(comparators.time(new Date(0), new Date(1))).toBe(false);
+      expect(comparators.shallow({ a: { b: 1 } }, { a: { b: 1 } })).toBe(false);
+      expect(comparators.shallow([1, 2], { 0: 1, 1: 2 })).toBe(false);
+
+      expect(comparators.deep({ a: { b: [1] } }, { a: { b: [1] } })).toBe(true);
+      expect(comparators.deep(new Date(0), new Date(0))).toBe(true);
+      expect(
+        comparators.deep(new Map([['a', { b: 1 }]]), new Map([['a', { b: 2 }]]))
+      ).toBe(false);
+
+      const circular: { self?: unknown } = {};
+      circular.self = circular;
+      const circularCopy: { self?: unknown } = {};
+      circularCopy.self = circularCopy;
+
+      expect(comparators.deep(circular, circularCopy)).toBe(true);
+
+      expect(comparators.byKey('id')({ id: 1 }, { id: 1, name: 'x' })).toBe(
+        true
+      );
+      expect(comparators.byKey('id')([{ id: 1 }], [{ id: 2 }])).toBe(false);
+      expect(comparators.byKey('id')(null, { id: 1 })).toBe(false);
+    });
+  });
+
+  describe('async callbacks', () => {
+    it('should wait for the async callbacks before executing the detectChanges', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        userId: 1,
+      };
+
+      const { promise: request, ...requestTools } = createDecoupledPromise();
+
+      const callback1 = jest.fn(() => request.then(() => {}));
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        callbacks: {
+          userId: callback1,
+        },
+      });
+
+      const completion = changesManager.manageChanges({
+        userId: createSimpleChangeObject(1, 2),
+      } as SimpleChanges);
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(callback1).toHaveBeenCalledTimes(1);
+      expect(
+        changesManager.changeDetectorRef.detectChanges
+      ).not.toHaveBeenCalled();
+
+      requestTools.resolve();
+
+      const changesSummary = await completion;
+
+      expect(changesSummary.userId.currentValue).toBe(2);
+      expect(
+        changesManager.changeDetectorRef.detectChanges
+      ).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort the execution in flight when the same callback runs again', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        userId: 1,
+      };
+
+      const signals: AbortSignal[] = [];
+
+      const callback1 = jest.fn(
+        (_: TChangesSummary<typeof component>, { signal }) => {
+          signals.push(signal);
+
+          return new Promise<void>((resolve, reject) => {
+            signal.addEventListener('abort', () =>
+              reject(new Error('aborted'))
+            );
+            setTimeout(resolve, 10);
+          });
+        }
+      );
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        callbacks: {
+          userId: callback1,
+        },
+      });
+
+      const firstCompletion = changesManager.manageChanges({
+        userId: createSimpleChangeObject(1, 2),
+      } as SimpleChanges);
+
+      // waits for the debounce so the first execution is in flight
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const secondCompletion = changesManager.manageChanges({
+        userId: createSimpleChangeObject(2, 3),
+      } as SimpleChanges);
+
+      await expect(firstCompletion).resolves.toBeDefined();
+      await expect(secondCompletion).resolves.toBeDefined();
+
+      expect(callback1).toHaveBeenCalledTimes(2);
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[1].aborted).toBe(false);
+    });
+  });
+
+  describe('changes streams', () => {
+    it('should emit the changes summaries and the selected properties', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+        surname: '',
+        age: 0,
+      };
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+      });
+
+      const summaries = jest.fn();
+      const names = jest.fn();
+      const groups = jest.fn();
+
+      changesManager.changes$.subscribe(summaries);
+      changesManager.select('name').subscribe(names);
+      changesManager.selectGroup(['name', 'surname']).subscribe(groups);
+
+      await changesManager.manageChanges({
+        age: createSimpleChangeObject(0, 30),
+      } as SimpleChanges);
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      expect(summaries).toHaveBeenCalledTimes(2);
+      expect(groups).toHaveBeenCalledTimes(1);
+      expect(names).toHaveBeenCalledTimes(1);
+      expect(names).toHaveBeenCalledWith(
+        expect.objectContaining({ currentValue: 'johnny', didChange: true })
+      );
+    });
+
+    it('should complete the streams when the manager is destroyed', () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+      };
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+      });
+
+      const complete = jest.fn();
+
+      changesManager.select('name').subscribe({ complete });
+      changesManager.destroy();
+
+      expect(complete).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('signals', () => {
+    it('should keep the signals of the properties in step with the changes', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: 'johnny',
+        surname: '',
+      };
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+      });
+
+      const name = changesManager.signal('name');
+      const fullName = changesManager.computed(
+        ['name', 'surname'],
+        ({ name, surname }) => `${name} ${surname}`.trim()
+      );
+
+      expect(name()).toBe('johnny');
+      expect(fullName()).toBe('johnny');
+
+      await changesManager.manageChanges({
+        surname: createSimpleChangeObject('', 'quesada'),
+      } as SimpleChanges);
+
+      expect(name()).toBe('johnny');
+      expect(fullName()).toBe('johnny quesada');
+    });
+
+    it('should use the signals source instead of the simple changes', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+      };
+
+      const callback1 = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        callbacks: {
+          name: callback1,
+        },
+      });
+
+      const name = signal('johnny');
+
+      // the first read is a first change, so the callback is not executed
+      const firstSummary = await changesManager.manageSignals({ name });
+
+      expect(firstSummary.name.firstChange).toBe(true);
+      expect(callback1).not.toHaveBeenCalled();
+
+      name.set('johnny q');
+
+      const secondSummary = await changesManager.manageSignals({ name });
+
+      expect(secondSummary.name).toEqual(
+        expect.objectContaining({
+          previousValue: 'johnny',
+          currentValue: 'johnny q',
+          didChange: true,
+        })
+      );
+      expect(callback1).toHaveBeenCalledTimes(1);
+      expect(changesManager.signal('name')()).toBe('johnny q');
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should execute the pending changes immediately when flushing', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+      };
+
+      const callback1 = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: 100,
+        callbacks: {
+          name: callback1,
+        },
+      });
+
+      const completion = changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      changesManager.flush();
+
+      expect(callback1).toHaveBeenCalledTimes(1);
+      expect(changesManager.changeDetectorRef.detectChanges).toHaveBeenCalled();
+
+      await expect(completion).resolves.toEqual(
+        expect.objectContaining({
+          name: expect.objectContaining({ currentValue: 'johnny' }),
+        })
+      );
+    });
+
+    it('should drop the pending changes when the manager is destroyed', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+      };
+
+      const callback1 = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        callbacks: {
+          name: callback1,
+        },
+      });
+
+      const completion = changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      changesManager.destroy();
+
+      await expect(completion).resolves.toBeUndefined();
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(callback1).not.toHaveBeenCalled();
+      expect(
+        changesManager.changeDetectorRef.detectChanges
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should ignore and warn about the executions after the manager is destroyed', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+      };
+
+      const callback1 = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        callbacks: {
+          name: callback1,
+        },
+      });
+
+      changesManager.destroy();
+      changesManager.detectChanges();
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      expect(changesManager.removeCallback(callback1)).toBe(false);
+
+      expect(callback1).not.toHaveBeenCalled();
+      expect(
+        changesManager.changeDetectorRef.detectChanges
+      ).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should be destroyed together with the DestroyRef', () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+      };
+
+      const destroyCallbacks: (() => void)[] = [];
+      const unregister = jest.fn();
+
+      const destroyRef = {
+        onDestroy: jest.fn((callback: () => void) => {
+          destroyCallbacks.push(callback);
+
+          return unregister;
+        }),
+      } as unknown as DestroyRef;
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        destroyRef,
+      });
+
+      const complete = jest.fn();
+      changesManager.changes$.subscribe({ complete });
+
+      destroyCallbacks.forEach((callback) => callback());
+
+      expect(complete).toHaveBeenCalledTimes(1);
+
+      // the hook is not removed while the DestroyRef is running it
+      expect(unregister).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scheduling', () => {
+    it('should merge the simple changes of the superseded debounced executions', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+        surname: '',
+      };
+
+      const callback1 = jest.fn();
+      const callback2 = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        callbacks: {
+          name: callback1,
+          surname: callback2,
+        },
+      });
+
+      changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'j'),
+      } as SimpleChanges);
+
+      changesManager.manageChanges({
+        surname: createSimpleChangeObject('', 'quesada'),
+      } as SimpleChanges);
+
+      const changesSummary = await changesManager.manageChanges({
+        name: createSimpleChangeObject('j', 'johnny'),
+      } as SimpleChanges);
+
+      expect(changesSummary.name).toEqual(
+        expect.objectContaining({
+          previousValue: '',
+          currentValue: 'johnny',
+          didChange: true,
+        })
+      );
+
+      expect(callback1).toHaveBeenCalledTimes(1);
+      expect(callback2).toHaveBeenCalledTimes(1);
+    });
+
+    it('should debounce the callback of the group and merge the pending summaries', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        query: '',
+        page: 0,
+      };
+
+      const callback1 = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        callbacks: [[['query', 'page'], { callback: callback1, debounce: 5 }]],
+      });
+
+      const firstExecution = changesManager.manageChanges({
+        query: createSimpleChangeObject('', 'j'),
+      } as SimpleChanges);
+
+      const secondExecution = changesManager.manageChanges({
+        query: createSimpleChangeObject('j', 'jo'),
+        page: createSimpleChangeObject(0, 1),
+      } as SimpleChanges);
+
+      expect(callback1).not.toHaveBeenCalled();
+
+      await Promise.all([firstExecution, secondExecution]);
+
+      expect(callback1).toHaveBeenCalledTimes(1);
+
+      const [changesSummary] = callback1.mock.calls[0];
+
+      expect(changesSummary.query).toEqual(
+        expect.objectContaining({
+          previousValue: '',
+          currentValue: 'jo',
+          didChange: true,
+        })
+      );
+      expect(changesSummary.page.currentValue).toBe(1);
+    });
+
+    it('should throttle the callback of the group', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        position: 0,
+      };
+
+      const callback1 = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        callbacks: [[['position'], { callback: callback1, throttle: 10 }]],
+      });
+
+      changesManager.manageChanges({
+        position: createSimpleChangeObject(0, 1),
+      } as SimpleChanges);
+
+      // the leading execution is immediate
+      expect(callback1).toHaveBeenCalledTimes(1);
+
+      changesManager.manageChanges({
+        position: createSimpleChangeObject(1, 2),
+      } as SimpleChanges);
+
+      const lastExecution = changesManager.manageChanges({
+        position: createSimpleChangeObject(2, 3),
+      } as SimpleChanges);
+
+      expect(callback1).toHaveBeenCalledTimes(1);
+
+      await lastExecution;
+
+      expect(callback1).toHaveBeenCalledTimes(2);
+      expect(callback1.mock.calls[1][0].position).toEqual(
+        expect.objectContaining({ previousValue: 1, currentValue: 3 })
+      );
+    });
+
+    it('should execute the callback of the group in a microtask', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+      };
+
+      const callback1 = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        callbacks: [[['name'], { callback: callback1, schedule: 'microtask' }]],
+      });
+
+      const execution = changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      expect(callback1).not.toHaveBeenCalled();
+
+      await execution;
+
+      expect(callback1).toHaveBeenCalledTimes(1);
+
+      // the batch detection and the detection of the scheduled execution
+      expect(
+        changesManager.changeDetectorRef.detectChanges
+      ).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('dependencies between groups', () => {
+    it('should feed the derived changes to the groups which depend on them', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+        surname: '',
+        fullName: '',
+      };
+
+      const computeFullName = jest.fn(() => {
+        component.fullName = `${component.name} ${component.surname}`;
+      });
+
+      const onFullNameChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        callbacks: [
+          [['fullName'], { callback: onFullNameChange }],
+          [
+            ['name', 'surname'],
+            { callback: computeFullName, produces: ['fullName'] },
+          ],
+        ],
+      });
+
+      component.name = 'johnny';
+      component.surname = 'quesada';
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+        surname: createSimpleChangeObject('', 'quesada'),
+      } as SimpleChanges);
+
+      expect(computeFullName).toHaveBeenCalledTimes(1);
+      expect(onFullNameChange).toHaveBeenCalledTimes(1);
+      expect(onFullNameChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fullName: {
+            previousValue: '',
+            currentValue: 'johnny quesada',
+            firstChange: false,
+            didChange: true,
+          },
+        }),
+        expect.anything()
+      );
+
+      // the derived value is tracked by the signals as well
+      expect(changesManager.signal('fullName')()).toBe('johnny quesada');
+      expect(changeDetectorRef.detectChanges).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for the async producers before executing the dependent groups', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        userId: 0,
+        user: null as { id: number } | null,
+      };
+
+      const loadUser = jest.fn(async () => {
+        await Promise.resolve();
+
+        component.user = { id: component.userId };
+      });
+
+      const onUserChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        callbacks: [
+          [['userId'], { callback: loadUser, produces: ['user'] }],
+          [['user'], { callback: onUserChange }],
+        ],
+      });
+
+      component.userId = 1;
+
+      const execution = changesManager.manageChanges({
+        userId: createSimpleChangeObject(0, 1),
+      } as SimpleChanges);
+
+      expect(loadUser).toHaveBeenCalledTimes(1);
+      expect(onUserChange).not.toHaveBeenCalled();
+
+      await execution;
+
+      expect(onUserChange).toHaveBeenCalledTimes(1);
+      expect(onUserChange.mock.calls[0][0].user.currentValue).toEqual({
+        id: 1,
+      });
+    });
+
+    it('should not execute the dependent groups if the produced value did not change', async () => {
+      const component = {
+        name: '',
+        fullName: 'johnny',
+      };
+
+      const onFullNameChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [
+          [['name'], { callback: () => {}, produces: ['fullName'] }],
+          [['fullName'], { callback: onFullNameChange }],
+        ],
+      });
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      expect(onFullNameChange).not.toHaveBeenCalled();
+    });
+
+    it('should throw a clear error if there is a cyclic dependency', () => {
+      const component = {
+        celsius: 0,
+        fahrenheit: 32,
+      };
+
+      expect(() =>
+        createChangesManager({
+          component,
+          changeDetectorRef: createChangeDetectorRef(),
+          callbacks: [
+            [['celsius'], { callback: () => {}, produces: ['fahrenheit'] }],
+            [['fahrenheit'], { callback: () => {}, produces: ['celsius'] }],
+          ],
+        })
+      ).toThrow(
+        'ChangesManager: cyclic dependency between the callback groups [celsius] -> [fahrenheit] -> [celsius]'
+      );
+    });
+  });
+
+  describe('diagnostics', () => {
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+      warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+    });
+
+    it('should warn about the properties which do not exist in the component', async () => {
+      const component = {
+        userId: 0,
+      };
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [[['userID' as keyof typeof component], jest.fn()]],
+      });
+
+      await changesManager.manageChanges({
+        userId: createSimpleChangeObject(0, 1),
+      } as SimpleChanges);
+
+      expect(warn).toHaveBeenCalledWith(
+        'ChangesManager: the property "userID" of the callbacks configuration doesn\'t exist in Object, did you mean "userId"?'
+      );
+    });
+
+    it('should collect the stats and report the groups which never fired', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+        age: 0,
+      };
+
+      const computeName = jest.fn();
+      const computeAge = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        callbacks: [
+          [['name'], computeName],
+          [['age'], computeAge],
+        ],
+      });
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('johnny', 'quesada'),
+      } as SimpleChanges);
+
+      const stats = changesManager.getStats();
+
+      expect(stats).toEqual(
+        expect.objectContaining({
+          manageChanges: 2,
+          detectChanges: 2,
+          unusedGroups: ['age'],
+        })
+      );
+
+      expect(stats.callbacks.get(computeName)).toEqual(
+        expect.objectContaining({ executions: 2 })
+      );
+
+      expect(stats.callbacks.has(computeAge)).toBe(false);
+
+      changesManager.destroy();
+
+      expect(warn).toHaveBeenCalledWith(
+        'ChangesManager: the callback groups [age] of Object never fired, check if their properties are inputs of the component'
+      );
+    });
+
+    it('should not warn nor collect the stats if the diagnostics are disabled', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const component = {
+        name: '',
+      };
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        diagnostics: false,
+        callbacks: {
+          nmae: jest.fn(),
+        } as TCallbacksConfigParameter<typeof component>,
+      });
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      changesManager.destroy();
+
+      expect(changesManager.getStats()).toBeNull();
+      expect(warn).not.toHaveBeenCalled();
+
+      warn.mockRestore();
+    });
+  });
+
+  describe('history', () => {
+    it('should record the latest changes with the callbacks executed and the validators which rejected', async () => {
+      const component = {
+        userId: 0,
+      };
+
+      const loadUser = jest.fn();
+      const isPositive = jest.fn(
+        ({ userId }: TChangesSummary<typeof component>) =>
+          userId.currentValue > 0
+      );
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        historySize: 2,
+        callbacks: [
+          [['userId'], { callback: loadUser, validator: isPositive }],
+        ],
+      });
+
+      await changesManager.manageChanges({
+        userId: createSimpleChangeObject(0, 1),
+      } as SimpleChanges);
+
+      await changesManager.manageChanges({
+        userId: createSimpleChangeObject(1, -1),
+      } as SimpleChanges);
+
+      await changesManager.manageChanges({
+        userId: createSimpleChangeObject(-1, 2),
+      } as SimpleChanges);
+
+      const history = changesManager.getHistory();
+
+      // the oldest entry was dropped
+      expect(history).toHaveLength(2);
+
+      expect(history[0]).toEqual({
+        timestamp: expect.any(Number),
+        changesSummary: {
+          userId: expect.objectContaining({
+            previousValue: 1,
+            currentValue: -1,
+          }),
+        },
+        firedGroups: ['userId'],
+        executedCallbacks: [],
+        rejectedValidators: [isPositive],
+      });
+
+      expect(history[1]).toEqual(
+        expect.objectContaining({
+          executedCallbacks: [loadUser],
+          rejectedValidators: [],
+        })
+      );
+    });
+
+    it('should replay the callbacks with a recorded changes summary', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        userId: 0,
+      };
+
+      const loadUser = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        historySize: 10,
+        callbacks: [[['userId'], loadUser]],
+      });
+
+      await changesManager.manageChanges({
+        userId: createSimpleChangeObject(0, 1),
+      } as SimpleChanges);
+
+      await changesManager.manageChanges({
+        userId: createSimpleChangeObject(1, 2),
+      } as SimpleChanges);
+
+      const changesSummary = await changesManager.replay(0);
+
+      expect(loadUser).toHaveBeenCalledTimes(3);
+      expect(loadUser.mock.calls[2][0]).toBe(changesSummary);
+      expect(changesSummary.userId.currentValue).toBe(1);
+
+      expect(changeDetectorRef.detectChanges).toHaveBeenCalledTimes(3);
+      expect(changesManager.getHistory()).toHaveLength(2);
+
+      await expect(changesManager.replay(2)).rejects.toThrow(
+        'ChangesManager: there is no history entry at the index 2'
+      );
+    });
+
+    it('should emit each fired group once per execution', async () => {
+      const component = { a: 0, b: 0, c: 0 };
+      const firedGroups: string[] = [];
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        historySize: 1,
+        snapshotsSize: 1,
+        callbacks: { a: jest.fn(), b: jest.fn(), c: jest.fn() },
+      });
+
+      changesManager.firedGroups$.subscribe((groupId) =>
+        firedGroups.push(groupId)
+      );
+
+      await changesManager.manageChanges({
+        a: createSimpleChangeObject(0, 1),
+        b: createSimpleChangeObject(0, 1),
+        c: createSimpleChangeObject(0, 1),
+      } as SimpleChanges);
+
+      expect(firedGroups).toEqual(['a', 'b', 'c']);
+      expect(changesManager.getHistory()[0].firedGroups).toEqual([
+        'a',
+        'b',
+        'c',
+      ]);
+    });
+
+    it('should not record the history by default', async () => {
+      const component = {
+        userId: 0,
+      };
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [[['userId'], jest.fn()]],
+      });
+
+      await changesManager.manageChanges({
+        userId: createSimpleChangeObject(0, 1),
+      } as SimpleChanges);
+
+      expect(changesManager.getHistory()).toEqual([]);
+    });
+  });
+
+  describe('runtime reconfiguration', () => {
+    it('should add a group and remove it with the returned handle', async () => {
+      const component = {
+        form: {},
+      };
+
+      const save = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+      });
+
+      const removeAutosave = changesManager.addCallback(['form'], save);
+
+      await changesManager.manageChanges({
+        form: createSimpleChangeObject({}, {}),
+      } as SimpleChanges);
+
+      expect(save).toHaveBeenCalledTimes(1);
+
+      removeAutosave();
+
+      await changesManager.manageChanges({
+        form: createSimpleChangeObject({}, {}),
+      } as SimpleChanges);
+
+      expect(save).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not remove other groups with the same properties', async () => {
+      const component = {
+        name: '',
+        surname: '',
+      };
+
+      const computeFullName = jest.fn();
+      const trackName = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [[['name', 'surname'], computeFullName]],
+      });
+
+      const removeTracking = changesManager.addCallback(
+        ['surname', 'name'],
+        trackName
+      );
+
+      removeTracking();
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      expect(computeFullName).toHaveBeenCalledTimes(1);
+      expect(trackName).not.toHaveBeenCalled();
+    });
+
+    it('should remove and replace the callbacks', async () => {
+      const component = {
+        name: '',
+        age: 0,
+      };
+
+      const computeName = jest.fn();
+      const computeAge = jest.fn();
+      const computeProfile = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: {
+          name: computeName,
+          age: computeAge,
+        },
+      });
+
+      expect(changesManager.removeCallback(computeAge)).toBe(true);
+      expect(changesManager.removeCallback(computeAge)).toBe(false);
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+        age: createSimpleChangeObject(0, 30),
+      } as SimpleChanges);
+
+      expect(computeName).toHaveBeenCalledTimes(1);
+      expect(computeAge).not.toHaveBeenCalled();
+
+      changesManager.replaceCallbacks([[['name', 'age'], computeProfile]]);
+
+      await changesManager.manageChanges({
+        age: createSimpleChangeObject(30, 31),
+      } as SimpleChanges);
+
+      expect(computeName).toHaveBeenCalledTimes(1);
+      expect(computeProfile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the configuration if the new group creates a cycle', async () => {
+      const component = {
+        celsius: 0,
+        fahrenheit: 32,
+      };
+
+      const toFahrenheit = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [
+          [['celsius'], { callback: toFahrenheit, produces: ['fahrenheit'] }],
+        ],
+      });
+
+      expect(() =>
+        changesManager.addCallback(['fahrenheit'], {
+          callback: jest.fn(),
+          produces: ['celsius'],
+        })
+      ).toThrow('ChangesManager: cyclic dependency');
+
+      await changesManager.manageChanges({
+        celsius: createSimpleChangeObject(0, 100),
+      } as SimpleChanges);
+
+      expect(toFahrenheit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop the pending executions of the removed callbacks', async () => {
+      const component = {
+        query: '',
+      };
+
+      const search = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+      });
+
+      changesManager.addCallback(['query'], { callback: search, debounce: 5 });
+
+      const execution = changesManager.manageChanges({
+        query: createSimpleChangeObject('', 'j'),
+      } as SimpleChanges);
+
+      changesManager.removeCallback(search);
+
+      await execution;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(search).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multiple callbacks per group', () => {
+    it('should merge the entries with the same properties keeping the configuration order', async () => {
+      const component = {
+        name: '',
+        surname: '',
+      };
+
+      const executions: string[] = [];
+
+      const computeFullName = jest.fn(() => {
+        executions.push('computeFullName');
+      });
+
+      const trackName = jest.fn(() => {
+        executions.push('trackName');
+      });
+
+      const properties: (keyof typeof component)[] = ['surname', 'name'];
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [
+          [properties, computeFullName],
+          [
+            ['name', 'surname'],
+            {
+              callback: trackName,
+              validator: ({ name }) => name.currentValue !== 'skip',
+            },
+          ],
+        ],
+      });
+
+      // the properties of the configuration are not sorted in place
+      expect(properties).toEqual(['surname', 'name']);
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      expect(executions).toEqual(['computeFullName', 'trackName']);
+
+      // each callback keeps its own validator
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('johnny', 'skip'),
+      } as SimpleChanges);
+
+      expect(computeFullName).toHaveBeenCalledTimes(2);
+      expect(trackName).toHaveBeenCalledTimes(1);
+    });
+
+    it('should execute the callbacks with higher priority first', async () => {
+      const component = {
+        name: '',
+        age: 0,
+        fullName: '',
+      };
+
+      const executions: string[] = [];
+
+      const track =
+        (name: string, produce = false) =>
+        () => {
+          executions.push(name);
+
+          if (produce) component.fullName = component.name;
+        };
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [
+          [['age'], track('age')],
+          [['fullName'], { callback: track('fullName'), priority: 10 }],
+          [['name'], track('name')],
+          [
+            ['name'],
+            {
+              callback: track('computeFullName', true),
+              produces: ['fullName'],
+              priority: 5,
+            },
+          ],
+        ],
+      });
+
+      component.name = 'johnny';
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+        age: createSimpleChangeObject(0, 30),
+      } as SimpleChanges);
+
+      // the dependencies are respected even if the dependent group has a higher priority
+      expect(executions).toEqual([
+        'computeFullName',
+        'name',
+        'fullName',
+        'age',
+      ]);
+    });
+
+    it('should add every callback of the array values of the object configuration', async () => {
+      const component = {
+        userId: 0,
+      };
+
+      const loadUser = jest.fn();
+      const loadPermissions = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: {
+          userId: [loadUser, { callback: loadPermissions, validator: null }],
+        },
+      });
+
+      await changesManager.manageChanges({
+        userId: createSimpleChangeObject(0, 1),
+      } as SimpleChanges);
+
+      expect(loadUser).toHaveBeenCalledTimes(1);
+      expect(loadPermissions).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('validators', () => {
+    type TComponent = {
+      userId: number;
+      status: string;
+      filters: string[];
+    };
+
+    const createChangesSummary = (
+      changes: Partial<TChangesSummary<TComponent>>
+    ) => changes as TChangesSummary<TComponent>;
+
+    const change = <T>(previousValue: T, currentValue: T) => ({
+      previousValue,
+      currentValue,
+      firstChange: false,
+      didChange: !Object.is(previousValue, currentValue),
+    });
+
+    it('should validate the values and the changes of the properties', () => {
+      const changesSummary = createChangesSummary({
+        userId: change(null, 1),
+        status: change('pending', 'pending'),
+      });
+
+      expect(validators.notNil<TComponent>('userId')(changesSummary)).toBe(
+        true
+      );
+      expect(
+        validators.notNil<TComponent>('userId', 'filters')(changesSummary)
+      ).toBe(false);
+
+      expect(
+        validators.changedAll<TComponent>(['userId', 'status'])(changesSummary)
+      ).toBe(false);
+      expect(
+        validators.changedAny<TComponent>(['userId', 'status'])(changesSummary)
+      ).toBe(true);
+      expect(
+        validators.changedAny<TComponent>(['filters'])(changesSummary)
+      ).toBe(false);
+
+      expect(
+        validators.matches<TComponent, 'userId'>(
+          'userId',
+          (userId) => userId > 0
+        )(changesSummary)
+      ).toBe(true);
+    });
+
+    it('should validate the transitions of the properties', () => {
+      const isCompleted = validators.transitioned<TComponent, 'status'>(
+        'status',
+        'pending',
+        'completed'
+      );
+
+      const isCleared = validators.transitioned<TComponent, 'status'>(
+        'status',
+        (status) => status != null,
+        null
+      );
+
+      expect(
+        isCompleted(
+          createChangesSummary({ status: change('pending', 'completed') })
+        )
+      ).toBe(true);
+      expect(
+        isCompleted(
+          createChangesSummary({ status: change('draft', 'completed') })
+        )
+      ).toBe(false);
+      expect(
+        isCleared(createChangesSummary({ status: change('pending', null) }))
+      ).toBe(true);
+      expect(isCleared(createChangesSummary({}))).toBe(false);
+    });
+
+    it('should compose the validators in the callbacks configuration', async () => {
+      const component: TComponent = {
+        userId: null,
+        status: '',
+        filters: [],
+      };
+
+      const loadOrders = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [
+          [
+            ['userId', 'filters'],
+            {
+              callback: loadOrders,
+              validator: validators.and(
+                validators.notNil('userId'),
+                validators.or(
+                  validators.changedAny(['userId']),
+                  validators.not(
+                    validators.matches('filters', (filters) => !filters.length)
+                  )
+                )
+              ),
+            },
+          ],
+        ],
+      });
+
+      await changesManager.manageChanges({
+        filters: createSimpleChangeObject([], ['open']),
+      } as SimpleChanges);
+
+      expect(loadOrders).not.toHaveBeenCalled();
+
+      await changesManager.manageChanges({
+        userId: createSimpleChangeObject(null, 1),
+        filters: createSimpleChangeObject(['open'], []),
+      } as SimpleChanges);
+
+      expect(loadOrders).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('first change', () => {
+    const createFirstChange = <T>(currentValue: T) => {
+      return {
+        previousValue: undefined,
+        currentValue,
+        firstChange: true,
+      } as SimpleChange;
+    };
+
+    it('should execute the groups once with the initial bindings', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: 'johnny',
+        surname: 'quesada',
+      };
+
+      const computeFullName = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        runOnFirstChange: true,
+        callbacks: [[['name', 'surname'], computeFullName]],
+      });
+
+      await changesManager.manageChanges({
+        name: createFirstChange('johnny'),
+        surname: createFirstChange('quesada'),
+      } as SimpleChanges);
+
+      expect(computeFullName).toHaveBeenCalledTimes(1);
+      expect(computeFullName.mock.calls[0][0].name).toEqual(
+        expect.objectContaining({ firstChange: true, didChange: false })
+      );
+      expect(changeDetectorRef.detectChanges).toHaveBeenCalledTimes(1);
+    });
+
+    it('should execute the group again with the inputs bound in a later change', async () => {
+      const component = {
+        name: 'johnny',
+        surname: '',
+      };
+
+      const computeFullName = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        runOnFirstChange: true,
+        callbacks: [[['name', 'surname'], computeFullName]],
+      });
+
+      await changesManager.manageChanges({
+        name: createFirstChange('johnny'),
+      } as SimpleChanges);
+
+      component.surname = 'quesada';
+
+      await changesManager.manageChanges({
+        surname: createFirstChange('quesada'),
+      } as SimpleChanges);
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('johnny', 'johnny'),
+      } as SimpleChanges);
+
+      expect(computeFullName).toHaveBeenCalledTimes(2);
+      expect(computeFullName.mock.calls[1][0]).toEqual({
+        surname: expect.objectContaining({ currentValue: 'quesada' }),
+      });
+    });
+
+    it('should allow each group to override the global option', async () => {
+      const component = {
+        userId: 1,
+        theme: 'dark',
+      };
+
+      const loadUser = jest.fn();
+      const applyTheme = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [
+          [['userId'], { callback: loadUser, runOnFirstChange: true }],
+          [['theme'], applyTheme],
+        ],
+      });
+
+      await changesManager.manageChanges({
+        userId: createFirstChange(1),
+        theme: createFirstChange('dark'),
+      } as SimpleChanges);
+
+      expect(loadUser).toHaveBeenCalledTimes(1);
+      expect(applyTheme).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('manual execution', () => {
+    it('should compare the current values with the last tracked values', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        name: '',
+        surname: '',
+      };
+
+      const computeFullName = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        callbacks: [
+          [
+            ['name', 'surname'],
+            {
+              callback: computeFullName,
+              validator: ({ name }) => name.didChange,
+            },
+          ],
+        ],
+      });
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+        surname: createSimpleChangeObject('', ''),
+      } as SimpleChanges);
+
+      component.name = 'johnny';
+      await changesManager.executeCallbacks();
+
+      // nothing changed since the last tracked values
+      expect(computeFullName).toHaveBeenCalledTimes(1);
+
+      component.name = 'jq';
+      const changesSummary = await changesManager.executeCallbacks();
+
+      expect(computeFullName).toHaveBeenCalledTimes(2);
+      expect(changesSummary.name).toEqual(
+        expect.objectContaining({
+          previousValue: 'johnny',
+          currentValue: 'jq',
+          didChange: true,
+        })
+      );
+
+      expect(changeDetectorRef.detectChanges).toHaveBeenCalledTimes(2);
+      expect(changesManager.signal('name')()).toBe('jq');
+    });
+
+    it('should execute only the selected groups', async () => {
+      const component = {
+        name: '',
+        surname: '',
+        age: 0,
+      };
+
+      const computeFullName = jest.fn();
+      const computeAge = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [
+          [['name', 'surname'], computeFullName],
+          [['age'], computeAge],
+        ],
+      });
+
+      component.name = 'johnny';
+      component.age = 30;
+
+      await changesManager.executeCallbacks({ props: ['name'] });
+
+      expect(computeFullName).toHaveBeenCalledTimes(1);
+      expect(computeAge).not.toHaveBeenCalled();
+
+      await changesManager.executeCallbacks({
+        groups: [['surname', 'name']],
+        force: true,
+      });
+
+      expect(computeFullName).toHaveBeenCalledTimes(2);
+      expect(computeAge).not.toHaveBeenCalled();
+
+      await expect(
+        changesManager.executeCallbacks({ groups: [['surname']] })
+      ).rejects.toThrow(
+        'ChangesManager: there is no callback group with the properties [surname]'
+      );
+    });
+
+    it('should skip the validators only if requested', async () => {
+      const component = {
+        userId: 0,
+      };
+
+      const loadUser = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [
+          [
+            ['userId'],
+            {
+              callback: loadUser,
+              validator: ({ userId }) => userId.currentValue > 0,
+            },
+          ],
+        ],
+      });
+
+      await changesManager.executeCallbacks({ force: true });
+
+      expect(loadUser).not.toHaveBeenCalled();
+
+      await changesManager.executeCallbacks({
+        force: true,
+        avoidValidations: true,
+      });
+
+      expect(loadUser).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('observed properties', () => {
+    it('should manage the writes of the observed properties', async () => {
+      const changeDetectorRef = createChangeDetectorRef();
+      const component = {
+        selectedTab: 'general',
+      };
+
+      const onTabChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        callbacks: [[['selectedTab'], onTabChange]],
+      });
+
+      changesManager.observe(['selectedTab']);
+
+      component.selectedTab = 'security';
+      component.selectedTab = 'billing';
+
+      expect(component.selectedTab).toBe('billing');
+      expect(onTabChange).not.toHaveBeenCalled();
+
+      await Promise.resolve();
+
+      // the writes of the same tick are merged
+      expect(onTabChange).toHaveBeenCalledTimes(1);
+      expect(onTabChange.mock.calls[0][0].selectedTab).toEqual({
+        previousValue: 'general',
+        currentValue: 'billing',
+        firstChange: false,
+        didChange: true,
+      });
+
+      expect(changeDetectorRef.detectChanges).toHaveBeenCalledTimes(1);
+    });
+
+    it('should preserve the accessors of the component and restore them', async () => {
+      class MyComponent {
+        private _page = 1;
+
+        get page() {
+          return this._page;
+        }
+
+        set page(value: number) {
+          this._page = Math.max(1, value);
+        }
+      }
+
+      const component = new MyComponent();
+      const onPageChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [[['page'], onPageChange]],
+      });
+
+      const unobserve = changesManager.observe(['page']);
+
+      component.page = -5;
+      changesManager.flush();
+
+      await Promise.resolve();
+
+      // the value is the one resolved by the setter of the component, so it didn't change
+      expect(onPageChange).not.toHaveBeenCalled();
+
+      component.page = 3;
+      changesManager.flush();
+
+      expect(onPageChange).toHaveBeenCalledTimes(1);
+      expect(onPageChange.mock.calls[0][0].page.currentValue).toBe(3);
+
+      unobserve();
+
+      expect(
+        Object.getOwnPropertyDescriptor(component, 'page')
+      ).toBeUndefined();
+
+      component.page = 4;
+      await Promise.resolve();
+
+      expect(onPageChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restore the observed properties when the manager is destroyed', async () => {
+      const component = {
+        items: [] as string[],
+      };
+
+      const onItemsChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [[['items'], onItemsChange]],
+      });
+
+      changesManager.observe(['items']);
+
+      component.items = ['a'];
+      changesManager.destroy();
+
+      await Promise.resolve();
+
+      expect(onItemsChange).not.toHaveBeenCalled();
+      expect(Object.getOwnPropertyDescriptor(component, 'items')).toEqual({
+        value: ['a'],
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    });
+    it('should log the errors of the callbacks executed by the writes', async () => {
+      const error = new Error('failed');
+      const consoleError = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      const component = {
+        selectedTab: 'general',
+      };
+
+      const onTabChange = jest.fn(() => {
+        throw error;
+      });
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [[['selectedTab'], onTabChange]],
+      });
+
+      changesManager.observe(['selectedTab']);
+
+      component.selectedTab = 'security';
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(onTabChange).toHaveBeenCalledTimes(1);
+      expect(consoleError).toHaveBeenCalledWith(
+        'ChangesManager: an execution of the callbacks failed',
+        error
+      );
+
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('nested paths', () => {
+    type TConfig = {
+      filters: { date: string; tags: string[] };
+      page: number;
+    };
+
+    it('should execute the group only if the nested property changed', async () => {
+      const component = {
+        config: null as TConfig,
+      };
+
+      const onDateChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [[['config.filters.date'], onDateChange]],
+      });
+
+      const config: TConfig = {
+        filters: { date: '2023-01-01', tags: [] },
+        page: 1,
+      };
+
+      await changesManager.manageChanges({
+        config: createSimpleChangeObject(config, { ...config, page: 2 }),
+      } as SimpleChanges);
+
+      expect(onDateChange).not.toHaveBeenCalled();
+
+      await changesManager.manageChanges({
+        config: createSimpleChangeObject(config, {
+          ...config,
+          filters: { ...config.filters, date: '2023-01-02' },
+        }),
+      } as SimpleChanges);
+
+      expect(onDateChange).toHaveBeenCalledTimes(1);
+      expect(onDateChange.mock.calls[0][0]['config.filters.date']).toEqual({
+        previousValue: '2023-01-01',
+        currentValue: '2023-01-02',
+        firstChange: false,
+        didChange: true,
+      });
+    });
+
+    it('should compare the nested properties with their comparators', async () => {
+      const component = {
+        config: null as TConfig,
+      };
+
+      const onTagsChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        comparators: {
+          'config.filters.tags': comparators.shallow,
+        },
+        callbacks: {
+          'config.filters.tags': onTagsChange,
+        },
+      });
+
+      await changesManager.manageChanges({
+        config: createSimpleChangeObject(
+          { filters: { date: '', tags: ['a'] }, page: 1 },
+          { filters: { date: '', tags: ['a'] }, page: 1 }
+        ),
+      } as SimpleChanges);
+
+      expect(onTagsChange).not.toHaveBeenCalled();
+
+      // the intermediate values could be missing
+      await changesManager.manageChanges({
+        config: createSimpleChangeObject(
+          { filters: { date: '', tags: ['a'] }, page: 1 },
+          null
+        ),
+      } as SimpleChanges);
+
+      expect(onTagsChange).toHaveBeenCalledTimes(1);
+      expect(
+        onTagsChange.mock.calls[0][0]['config.filters.tags'].currentValue
+      ).toBeUndefined();
+    });
+  });
+
+  describe('errors', () => {
+    const createFailingComponent = (
+      errorPolicy: TErrorPolicy,
+      onError: TErrorHandler<{ name: string; surname: string }> = jest.fn()
+    ) => {
+      const component = { name: '', surname: '' };
+      const error = new Error('failed');
+
+      const failingCallback = jest.fn(() => {
+        throw error;
+      });
+
+      const nextCallback = jest.fn();
+      const changeDetectorRef = createChangeDetectorRef();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        onError,
+        errorPolicy,
+        callbacks: [
+          [['name'], { callback: failingCallback }],
+          [['surname'], { callback: nextCallback }],
+        ],
+      });
+
+      const manageChanges = () =>
+        changesManager.manageChanges({
+          name: createSimpleChangeObject('', 'johnny'),
+          surname: createSimpleChangeObject('', 'quesada'),
+        } as SimpleChanges);
+
+      return {
+        error,
+        failingCallback,
+        nextCallback,
+        changeDetectorRef,
+        manageChanges,
+      };
+    };
+
+    it('should isolate the failing callbacks and report the errors with the continue policy', async () => {
+      const onError = jest.fn();
+
+      const {
+        error,
+        failingCallback,
+        nextCallback,
+        changeDetectorRef,
+        manageChanges,
+      } = createFailingComponent('continue', onError);
+
+      await manageChanges();
+
+      expect(nextCallback).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(error, {
+        groupId: 'name',
+        phase: 'callback',
+        callback: failingCallback,
+      });
+
+      expect(changeDetectorRef.detectChanges).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the rest of the callbacks with the abort policy', async () => {
+      const { error, nextCallback, changeDetectorRef, manageChanges } =
+        createFailingComponent('abort', null);
+
+      await expect(manageChanges()).rejects.toBe(error);
+
+      expect(nextCallback).not.toHaveBeenCalled();
+      expect(changeDetectorRef.detectChanges).toHaveBeenCalledTimes(1);
+    });
+
+    it('should execute the rest of the callbacks and then fail with the rethrow-after policy', async () => {
+      const { error, nextCallback, changeDetectorRef, manageChanges } =
+        createFailingComponent('rethrow-after', null);
+
+      await expect(manageChanges()).rejects.toBe(error);
+
+      expect(nextCallback).toHaveBeenCalledTimes(1);
+      expect(changeDetectorRef.detectChanges).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not fail the execution if the errors are handled by the onError', async () => {
+      const onError = jest.fn();
+      const onUnhandledRejection = jest.fn();
+
+      process.on('unhandledRejection', onUnhandledRejection);
+
+      const { error, nextCallback, manageChanges } = createFailingComponent(
+        'abort',
+        onError
+      );
+
+      // the promise is not awaited, like in the ngOnChanges
+      manageChanges();
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      process.off('unhandledRejection', onUnhandledRejection);
+
+      expect(onError).toHaveBeenCalledWith(error, expect.anything());
+      expect(nextCallback).not.toHaveBeenCalled();
+      expect(onUnhandledRejection).not.toHaveBeenCalled();
+    });
+
+    it('should report the errors of the detection like the ones of the callbacks', async () => {
+      const error = new Error('destroyed view');
+
+      const createManager = (
+        callback: () => void | Promise<void>,
+        onError: TErrorHandler<{ name: string }>
+      ) => {
+        const changeDetectorRef = createChangeDetectorRef();
+
+        (changeDetectorRef.detectChanges as jest.Mock).mockImplementation(
+          () => {
+            throw error;
+          }
+        );
+
+        return createChangesManager({
+          component: { name: '' },
+          changeDetectorRef,
+          debounceDelay: NaN,
+          onError,
+          callbacks: { name: callback },
+        });
+      };
+
+      const manageChanges = (
+        changesManager: ReturnType<typeof createManager>
+      ) =>
+        changesManager.manageChanges({
+          name: createSimpleChangeObject('', 'johnny'),
+        } as SimpleChanges);
+
+      const onError = jest.fn();
+
+      await manageChanges(createManager(() => {}, onError));
+      await manageChanges(createManager(() => Promise.resolve(), onError));
+
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledWith(error, {
+        groupId: null,
+        phase: 'detection',
+        callback: null,
+      });
+
+      // without the onError the promise is rejected, never the call itself
+      let execution: Promise<unknown>;
+
+      expect(() => {
+        execution = manageChanges(createManager(() => {}, null));
+      }).not.toThrow();
+
+      await expect(execution).rejects.toBe(error);
+    });
+
+    it('should report the failing validators and async callbacks', async () => {
+      const component = { name: '', surname: '' };
+      const onError = jest.fn();
+
+      const validator = () => {
+        throw new Error('validator');
+      };
+
+      const callback = jest.fn();
+      const asyncCallback = jest.fn(() => Promise.reject(new Error('async')));
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        onError,
+        errorPolicy: 'continue',
+        callbacks: [
+          [['name'], { callback, validator }],
+          [['surname', 'name'], { callback: asyncCallback }],
+        ],
+      });
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError.mock.calls[0][1]).toEqual({
+        groupId: 'name',
+        phase: 'validator',
+        callback,
+      });
+
+      expect(onError.mock.calls[1][0]).toEqual(new Error('async'));
+      expect(onError.mock.calls[1][1]).toEqual({
+        groupId: 'name|surname',
+        phase: 'callback',
+        callback: asyncCallback,
+      });
+    });
+  });
+
+  describe('detection', () => {
+    it('should update the view with the detection strategy', async () => {
+      const component = { name: '' };
+      const detection = jest.fn();
+
+      const createManager = (strategy: TDetectionStrategy<typeof component>) =>
+        createChangesManager({
+          component,
+          changeDetectorRef: createChangeDetectorRef(),
+          debounceDelay: NaN,
+          detection: strategy,
+          callbacks: { name: jest.fn() },
+        });
+
+      const managers = [
+        createManager('markForCheck'),
+        createManager('none'),
+        createManager(detection),
+      ];
+
+      await Promise.all(
+        managers.map((changesManager) =>
+          changesManager.manageChanges({
+            name: createSimpleChangeObject('', 'johnny'),
+          } as SimpleChanges)
+        )
+      );
+
+      const [markForCheckManager, noneManager, customManager] = managers;
+
+      expect(
+        markForCheckManager.changeDetectorRef.markForCheck
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        markForCheckManager.changeDetectorRef.detectChanges
+      ).not.toHaveBeenCalled();
+
+      expect(
+        noneManager.changeDetectorRef.detectChanges
+      ).not.toHaveBeenCalled();
+      expect(noneManager.changeDetectorRef.markForCheck).not.toHaveBeenCalled();
+
+      expect(detection).toHaveBeenCalledWith(
+        customManager.changeDetectorRef,
+        component
+      );
+    });
+
+    it('should batch the detections of many managers into the same frame', async () => {
+      const createManager = () =>
+        createChangesManager({
+          component: { name: '' },
+          changeDetectorRef: createChangeDetectorRef(),
+          debounceDelay: NaN,
+          batchDetection: true,
+          callbacks: { name: jest.fn() },
+        });
+
+      const managers = [createManager(), createManager()];
+
+      const manageChanges = () =>
+        Promise.all(
+          managers.map((changesManager) =>
+            changesManager.manageChanges({
+              name: createSimpleChangeObject('', 'johnny'),
+            } as SimpleChanges)
+          )
+        );
+
+      await manageChanges();
+      await manageChanges();
+
+      managers.forEach((changesManager) => {
+        expect(
+          changesManager.changeDetectorRef.detectChanges
+        ).not.toHaveBeenCalled();
+        expect(detectionScheduler.isPending(changesManager)).toBe(true);
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      managers.forEach((changesManager) =>
+        expect(
+          changesManager.changeDetectorRef.detectChanges
+        ).toHaveBeenCalledTimes(1)
+      );
+    });
+
+    it('should flush and cancel the batched detection of the manager', () => {
+      const createManager = () =>
+        createChangesManager({
+          component: {},
+          changeDetectorRef: createChangeDetectorRef(),
+        });
+
+      const flushedManager = createManager();
+      const cancelledManager = createManager();
+
+      flushedManager.detectChangesDebounced();
+      cancelledManager.detectChangesDebounced();
+
+      flushedManager.flush();
+      cancelledManager.cancel();
+
+      expect(
+        flushedManager.changeDetectorRef.detectChanges
+      ).toHaveBeenCalledTimes(1);
+      expect(
+        cancelledManager.changeDetectorRef.detectChanges
+      ).not.toHaveBeenCalled();
+      expect(detectionScheduler.isPending(cancelledManager)).toBe(false);
+    });
+
+    it('should pass the errors of the batched detection to the onError', async () => {
+      const error = new Error('detection');
+      const onError = jest.fn();
+      const changeDetectorRef = createChangeDetectorRef();
+
+      (changeDetectorRef.detectChanges as jest.Mock).mockImplementation(() => {
+        throw error;
+      });
+
+      const changesManager = createChangesManager({
+        component: { name: '' },
+        changeDetectorRef,
+        debounceDelay: NaN,
+        batchDetection: true,
+        onError,
+        callbacks: { name: jest.fn() },
+      });
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      detectionScheduler.flush();
+      await Promise.resolve();
+
+      expect(onError).toHaveBeenCalledWith(error, {
+        groupId: null,
+        phase: 'detection',
+        callback: null,
+      });
+    });
+
+    it('should log the errors of the batched detection without the onError', async () => {
+      const error = new Error('detection');
+      const consoleError = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      const changeDetectorRef = createChangeDetectorRef();
+
+      (changeDetectorRef.detectChanges as jest.Mock).mockImplementation(() => {
+        throw error;
+      });
+
+      const changesManager = createChangesManager({
+        component: { name: '' },
+        changeDetectorRef,
+        debounceDelay: NaN,
+        batchDetection: true,
+        callbacks: { name: jest.fn() },
+      });
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      detectionScheduler.flush();
+      await Promise.resolve();
+
+      expect(consoleError).toHaveBeenCalledWith(
+        'ChangesManager: the batched detection failed',
+        error
+      );
+
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('transforms', () => {
+    it('should transform the values before computing the changes and write them back to the component', async () => {
+      const component = {
+        disabled: false as boolean,
+        pageSize: 10,
+      };
+
+      const onDisabledChange = jest.fn();
+      const onPageSizeChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        transforms: {
+          disabled: transforms.toBoolean,
+          pageSize: transforms.toNumber,
+        },
+        callbacks: {
+          disabled: onDisabledChange,
+          pageSize: onPageSizeChange,
+        },
+      });
+
+      (component as Record<string, unknown>).disabled = '';
+      (component as Record<string, unknown>).pageSize = '20';
+
+      await changesManager.manageChanges({
+        disabled: createSimpleChangeObject<unknown>(false, ''),
+        pageSize: createSimpleChangeObject('10', '20'),
+      } as SimpleChanges);
+
+      expect(component).toEqual({ disabled: true, pageSize: 20 });
+      expect(onDisabledChange.mock.calls[0][0].disabled).toEqual(
+        expect.objectContaining({
+          previousValue: false,
+          currentValue: true,
+          rawValue: '',
+          didChange: true,
+        })
+      );
+
+      expect(onPageSizeChange.mock.calls[0][0].pageSize).toEqual(
+        expect.objectContaining({
+          previousValue: 10,
+          currentValue: 20,
+          rawValue: '20',
+        })
+      );
+
+      // the equality is checked with the transformed values
+      await changesManager.manageChanges({
+        pageSize: createSimpleChangeObject('20', '20.0'),
+      } as SimpleChanges);
+
+      expect(onPageSizeChange).toHaveBeenCalledTimes(1);
+      expect(component.pageSize).toBe(20);
+    });
+
+    it('should coerce the values with the built-in transforms', () => {
+      expect(transforms.toBoolean('false')).toBe(false);
+      expect(transforms.toBoolean(null)).toBe(false);
+      expect(transforms.toBoolean('')).toBe(true);
+
+      expect(transforms.toNumber('1.5')).toBe(1.5);
+      expect(transforms.toNumber('12px')).toBeNaN();
+
+      expect(transforms.toDate('2023-01-01T00:00:00.000Z')).toEqual(
+        new Date('2023-01-01T00:00:00.000Z')
+      );
+      expect(transforms.toDate('not a date')).toBeNull();
+      expect(transforms.toDate('')).toBeNull();
+    });
+
+    it('should write the transformed values back before the debounced callbacks', async () => {
+      const component = {
+        disabled: false as boolean,
+      };
+
+      const onDisabledChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        transforms: { disabled: transforms.toBoolean },
+        callbacks: { disabled: onDisabledChange },
+      });
+
+      const execution = changesManager.manageChanges({
+        disabled: createSimpleChangeObject('false', ''),
+      } as SimpleChanges);
+
+      // the first render already reads the coerced value
+      expect(component.disabled).toBe(true);
+      expect(onDisabledChange).not.toHaveBeenCalled();
+
+      changesManager.manageChanges({
+        disabled: createSimpleChangeObject('', 'false'),
+      } as SimpleChanges);
+
+      expect(component.disabled).toBe(false);
+
+      const changesSummary = await execution;
+
+      // the superseded call resolves with the merged changes
+      expect(changesSummary.disabled).toEqual(
+        expect.objectContaining({
+          previousValue: false,
+          currentValue: false,
+          rawValue: 'false',
+        })
+      );
+      expect(onDisabledChange).not.toHaveBeenCalled();
+    });
+
+    it('should compare the dates of the toDate transform by time', async () => {
+      const component = {
+        dateOfBirth: null as Date,
+        startDate: null as Date,
+      };
+
+      const onDateOfBirthChange = jest.fn();
+      const onStartDateChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        transforms: {
+          dateOfBirth: transforms.toDate,
+          startDate: transforms.toDate,
+        },
+        comparators: {
+          startDate: comparators.identity,
+        },
+        callbacks: [
+          [['dateOfBirth'], onDateOfBirthChange],
+          [['startDate'], onStartDateChange],
+        ],
+      });
+
+      const changesSummary = await changesManager.manageChanges({
+        dateOfBirth: createSimpleChangeObject(
+          '2023-01-01T00:00:00.000Z',
+          '2023-01-01T00:00:00.000Z'
+        ),
+        startDate: createSimpleChangeObject(
+          '2023-01-01T00:00:00.000Z',
+          '2023-01-01T00:00:00.000Z'
+        ),
+      } as SimpleChanges);
+
+      // the same instant is not a change, unless the property has another comparator
+      expect(changesSummary.dateOfBirth.didChange).toBe(false);
+      expect(onDateOfBirthChange).not.toHaveBeenCalled();
+      expect(onStartDateChange).toHaveBeenCalledTimes(1);
+
+      await changesManager.manageChanges({
+        dateOfBirth: createSimpleChangeObject(
+          '2023-01-01T00:00:00.000Z',
+          '2023-01-02T00:00:00.000Z'
+        ),
+      } as SimpleChanges);
+
+      expect(onDateOfBirthChange).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('core', () => {
+    it('should manage the changes between two states without a change detector', async () => {
+      const state = { page: 1, query: '' };
+
+      const loadPage = jest.fn();
+      const detect = jest.fn();
+
+      const changesManager = new ChangesManagerCore({
+        component: state,
+        debounceDelay: NaN,
+        detect,
+        callbacks: [
+          [['page', 'query'], loadPage],
+          [['query'], { callback: jest.fn(), runOnFirstChange: true }],
+        ],
+      });
+
+      const summary = await changesManager.manageStateChanges(
+        { page: 1 },
+        { page: 2, query: 'john' }
+      );
+
+      expect(summary.page).toEqual({
+        previousValue: 1,
+        currentValue: 2,
+        firstChange: false,
+        didChange: true,
+      });
+
+      // the properties missing in the previous state are first changes
+      expect(summary.query.firstChange).toBe(true);
+
+      expect(loadPage).toHaveBeenCalledTimes(1);
+      expect(detect).toHaveBeenCalledTimes(1);
+
+      await changesManager.manageStateChanges(
+        { page: 2, query: 'john' },
+        { page: 2, query: 'john' }
+      );
+
+      expect(loadPage).toHaveBeenCalledTimes(1);
+      expect(detect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should accept the changes per property and update nothing without a detect function', async () => {
+      const component = { name: '' };
+      const onNameChange = jest.fn();
+
+      const changesManager = new ChangesManagerCore({
+        component,
+        debounceDelay: NaN,
+        callbacks: { name: onNameChange },
+      });
+
+      await changesManager.manageChanges({
+        name: { previousValue: '', currentValue: 'johnny', firstChange: false },
+      });
+
+      expect(onNameChange).toHaveBeenCalledTimes(1);
+      expect(() => changesManager.detectChanges()).not.toThrow();
+    });
+  });
+
+  describe('typed groups', () => {
+    class MyComponent {
+      name = '';
+      surname = '';
+      fullName = '';
+
+      computeFullName() {
+        this.fullName = `${this.name} ${this.surname}`;
+      }
+    }
+
+    it('should narrow the changes summary of the callbacks to their group', async () => {
+      const component = new MyComponent();
+      const onNameChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: {
+          name: (changesSummary) => {
+            onNameChange(changesSummary.name?.currentValue);
+
+            // @ts-expect-error surname is not part of the group
+            changesSummary.surname;
+          },
+        },
+      });
+
+      changesManager.addCallback(['name', 'surname'], ({ name, surname }) => {
+        onNameChange(name?.currentValue, surname?.currentValue);
+      });
+
+      // @ts-expect-error fullName is not part of the group
+      changesManager.addCallback(['name'], ({ fullName }) => {});
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+      } as SimpleChanges);
+
+      expect(onNameChange).toHaveBeenCalledWith('johnny');
+      expect(onNameChange).toHaveBeenCalledWith('johnny', undefined);
+    });
+
+    it('should accept the callbacks narrowed to the properties of the group in the array form', async () => {
+      const component = new MyComponent();
+      const computeFullName = jest.fn(
+        ({
+          name,
+          surname,
+        }: TGroupChangesSummary<MyComponent, 'name' | 'surname'>) => {
+          component.fullName = `${name?.currentValue} ${surname?.currentValue}`;
+        }
+      );
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [
+          [['name', 'surname'], computeFullName],
+          [
+            ['name'],
+            {
+              callback: computeFullName,
+              validator: ({ name }) => name?.currentValue !== 'skip',
+            },
+          ],
+        ],
+      });
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+        surname: createSimpleChangeObject('', 'quesada'),
+      } as SimpleChanges);
+
+      expect(computeFullName).toHaveBeenCalledTimes(1);
+      expect(component.fullName).toBe('johnny quesada');
+    });
+
+    it('should narrow the entries of the array form created with groupsOf', async () => {
+      const component = new MyComponent();
+      const group = groupsOf<MyComponent>();
+      const onNameChange = jest.fn();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: [
+          group(['name', 'surname'], ({ name, surname }) => {
+            component.fullName = `${name?.currentValue} ${surname?.currentValue}`;
+          }),
+          group(['name'], {
+            callback: ({ name }) => onNameChange(name?.currentValue),
+            validator: ({ name }) => name?.currentValue !== 'skip',
+          }),
+          // @ts-expect-error surname is not part of the group
+          group(['name'], ({ surname }) => {}),
+          group(['name'], {
+            callback: () => {},
+            // @ts-expect-error surname is not part of the group
+            validator: ({ surname }) => true,
+          }),
+          // @ts-expect-error methods are not inputs
+          group(['computeFullName'], () => {}),
+        ],
+      });
+
+      await changesManager.manageChanges({
+        name: createSimpleChangeObject('', 'johnny'),
+        surname: createSimpleChangeObject('', 'quesada'),
+      } as SimpleChanges);
+
+      expect(component.fullName).toBe('johnny quesada');
+      expect(onNameChange).toHaveBeenCalledWith('johnny');
+    });
+
+    it('should only allow the input properties in the callbacks configuration', () => {
+      const component = new MyComponent();
+
+      createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        callbacks: [
+          // @ts-expect-error methods are not inputs
+          [['computeFullName'], () => {}],
+        ],
+      });
+
+      createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        callbacks: [
+          // @ts-expect-error misspelled property
+          [['nmae'], () => {}],
+        ],
+      });
+
+      createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        // @ts-expect-error methods are not inputs
+        callbacks: { computeFullName: () => {} },
+      });
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+      });
+
+      // @ts-expect-error methods are not inputs
+      changesManager.addCallback(['computeFullName'], () => {});
+    });
+  });
+
+  describe('snapshots', () => {
+    const createEditor = () => ({
+      text: '',
+      words: [] as string[],
+      wordsCount: 0,
+      isDirty: false,
+    });
+
+    it('should undo and redo the fields touched by the callbacks', async () => {
+      const component = createEditor();
+      const changeDetectorRef = createChangeDetectorRef();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef,
+        debounceDelay: NaN,
+        snapshotsSize: 10,
+        callbacks: [
+          [
+            ['text'],
+            {
+              callback: () => {
+                component.words = component.text.split(' ');
+                component.isDirty = true;
+              },
+              produces: ['words'],
+              touches: ['isDirty'],
+            },
+          ],
+          [
+            ['words'],
+            {
+              callback: () => {
+                component.wordsCount = component.words.length;
+              },
+              touches: ['wordsCount'],
+            },
+          ],
+        ],
+      });
+
+      component.text = 'hello';
+      await changesManager.manageChanges({
+        text: createSimpleChangeObject('', 'hello'),
+      } as SimpleChanges);
+
+      component.text = 'hello world';
+      await changesManager.manageChanges({
+        text: createSimpleChangeObject('hello', 'hello world'),
+      } as SimpleChanges);
+
+      expect(component).toEqual(
+        expect.objectContaining({ wordsCount: 2, isDirty: true })
+      );
+
+      changeDetectorRef.detectChanges = jest.fn();
+
+      expect(changesManager.undo()).toBe(true);
+
+      // the inputs are not part of the snapshots, only the fields declared by the groups
+      expect(component).toEqual({
+        text: 'hello world',
+        words: ['hello'],
+        wordsCount: 1,
+        isDirty: true,
+      });
+      expect(changeDetectorRef.detectChanges).toHaveBeenCalledTimes(1);
+
+      expect(changesManager.undo()).toBe(true);
+      expect(component).toEqual(
+        expect.objectContaining({ words: [], wordsCount: 0, isDirty: false })
+      );
+      expect(changesManager.canUndo()).toBe(false);
+      expect(changesManager.undo()).toBe(false);
+
+      expect(changesManager.redo()).toBe(true);
+      expect(changesManager.redo()).toBe(true);
+      expect(component).toEqual(
+        expect.objectContaining({ words: ['hello', 'world'], wordsCount: 2 })
+      );
+      expect(changesManager.canRedo()).toBe(false);
+      expect(changeDetectorRef.detectChanges).toHaveBeenCalledTimes(4);
+    });
+
+    it('should discard the undone executions once the callbacks are executed again', async () => {
+      const component = createEditor();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        snapshotsSize: 10,
+        callbacks: {
+          text: {
+            callback: () => {
+              component.isDirty = true;
+            },
+            touches: ['isDirty'],
+          },
+        },
+      });
+
+      await changesManager.manageChanges({
+        text: createSimpleChangeObject('', 'hello'),
+      } as SimpleChanges);
+
+      changesManager.undo();
+
+      expect(component.isDirty).toBe(false);
+      expect(changesManager.canRedo()).toBe(true);
+
+      await changesManager.manageChanges({
+        text: createSimpleChangeObject('hello', 'bye'),
+      } as SimpleChanges);
+
+      expect(changesManager.canRedo()).toBe(false);
+      expect(changesManager.redo()).toBe(false);
+    });
+
+    it('should roll back the execution of a failing callback', async () => {
+      const component = createEditor();
+      const onError = jest.fn(() => changesManager.rollback());
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        snapshotsSize: 10,
+        errorPolicy: 'continue',
+        onError,
+        callbacks: {
+          text: {
+            callback: () => {
+              component.words = null;
+
+              throw new Error('invalid text');
+            },
+            produces: ['words'],
+          },
+        },
+      });
+
+      await changesManager.manageChanges({
+        text: createSimpleChangeObject('', 'hello'),
+      } as SimpleChanges);
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(component.words).toEqual([]);
+      expect(changesManager.canUndo()).toBe(false);
+      expect(changesManager.canRedo()).toBe(false);
+    });
+
+    it('should not record snapshots by default', async () => {
+      const component = createEditor();
+
+      const changesManager = createChangesManager({
+        component,
+        changeDetectorRef: createChangeDetectorRef(),
+        debounceDelay: NaN,
+        callbacks: {
+          text: {
+            callback: () => {
+              component.isDirty = true;
+            },
+            touches: ['isDirty'],
+          },
+        },
+      });
+
+      await changesManager.manageChanges({
+        text: createSimpleChangeObject('', 'hello'),
+      } as SimpleChanges);
+
+      expect(changesManager.undo()).toBe(false);
+      expect(changesManager.rollback()).toBe(false);
+      expect(component.isDirty).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,144 @@
+import {
+  createFakeChangeDetectorRef,
+  createTestChangesManager,
+  expectGroupFired,
+  expectGroupNotFired,
+  flushDebounce,
+  simulateInputs,
+} from '../src/ChangesManager.testing';
+import { ChangesManager } from '../src/ChangesManager';
+
+describe('ChangesManager testing', () => {
+  it('should simulate the inputs with the right first changes', async () => {
+    const component = { name: '', surname: '' };
+    const computeFullName = jest.fn();
+
+    const changesManager = createTestChangesManager({
+      component,
+      runOnFirstChange: true,
+      callbacks: [[['name', 'surname'], computeFullName]],
+    });
+
+    await simulateInputs(changesManager, {
+      name: [undefined, 'johnny'],
+      surname: [undefined, 'quesada'],
+    });
+
+    expect(component).toEqual({ name: 'johnny', surname: 'quesada' });
+
+    const [[firstSummary]] = computeFullName.mock.calls;
+
+    expect(firstSummary.name.firstChange).toBe(true);
+
+    await simulateInputs(changesManager, { name: ['johnny', 'john'] });
+
+    const [, [secondSummary]] = computeFullName.mock.calls;
+
+    expect(secondSummary.name.firstChange).toBe(false);
+    expect(secondSummary.name.didChange).toBe(true);
+  });
+
+  it('should assert the groups which fired since the last simulation', async () => {
+    const component = { name: '', surname: '', age: 0 };
+
+    const changesManager = createTestChangesManager({
+      component,
+      callbacks: [
+        [['name', 'surname'], jest.fn()],
+        [['age'], jest.fn()],
+      ],
+    });
+
+    // the first binding is not a change
+    await simulateInputs(changesManager, {
+      name: [undefined, ''],
+      surname: [undefined, ''],
+      age: [undefined, 0],
+    });
+
+    expectGroupNotFired(changesManager, ['name', 'surname']);
+
+    await simulateInputs(changesManager, { surname: ['', 'quesada'] });
+
+    expectGroupFired(changesManager, ['surname', 'name']);
+    expectGroupNotFired(changesManager, ['age']);
+
+    expect(() => expectGroupFired(changesManager, ['age'])).toThrow(
+      'ChangesManager: expected the group [age] to fire, the fired groups were [name|surname]'
+    );
+
+    // values which didn't change don't fire the groups
+    await simulateInputs(changesManager, { surname: ['quesada', 'quesada'] });
+
+    expectGroupNotFired(changesManager, ['name', 'surname']);
+  });
+
+  it('should flush the debounced callbacks with the fake timers', async () => {
+    jest.useFakeTimers();
+
+    const component = { query: '' };
+    const search = jest.fn();
+    const changeDetectorRef = createFakeChangeDetectorRef();
+    const detectChanges = jest.spyOn(changeDetectorRef, 'detectChanges');
+
+    const changesManager = createTestChangesManager({
+      component,
+      changeDetectorRef,
+      callbacks: [[['query'], { callback: search, debounce: 300 }]],
+    });
+
+    simulateInputs(changesManager, { query: [undefined, ''] });
+    await flushDebounce(changesManager);
+
+    simulateInputs(changesManager, { query: ['', 'j'] });
+    await flushDebounce(changesManager);
+
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(detectChanges).toHaveBeenCalled();
+
+    jest.useRealTimers();
+  });
+
+  it('should assert the groups of any manager, without its history', async () => {
+    const component = { name: '', age: 0 };
+
+    const changesManager = new ChangesManager({
+      component,
+      changeDetectorRef: createFakeChangeDetectorRef(),
+      debounceDelay: NaN,
+      callbacks: [
+        [['name'], jest.fn()],
+        [['age'], jest.fn()],
+      ],
+    });
+
+    await simulateInputs(changesManager, { name: [undefined, ''] });
+    await simulateInputs(changesManager, { name: ['', 'johnny'] });
+
+    expectGroupFired(changesManager, ['name']);
+    expectGroupNotFired(changesManager, ['age']);
+  });
+
+  it('should keep the fired groups once the history is full', async () => {
+    const component = { name: '', age: 0 };
+
+    const changesManager = createTestChangesManager({
+      component,
+      historySize: 1,
+      debounceDelay: NaN,
+      callbacks: [
+        [['name'], jest.fn()],
+        [['age'], jest.fn()],
+      ],
+    });
+
+    await simulateInputs(changesManager, { name: [undefined, ''] });
+    await simulateInputs(changesManager, { name: ['', 'johnny'] });
+
+    // the entry of the simulation is dropped from the history
+    await changesManager.manageStateChanges({ age: 0 }, { age: 30 });
+
+    expectGroupFired(changesManager, ['name']);
+    expectGroupFired(changesManager, ['age']);
+  });
+});
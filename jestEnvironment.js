@@ -0,0 +1,15 @@
+const NodeEnvironment = require('jest-environment-node');
+
+/**
+ * The jest node environment doesn't expose the AbortController of the node runtime
+ */
+class TestEnvironment extends NodeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+
+    this.global.AbortController = AbortController;
+    this.global.AbortSignal = AbortSignal;
+  }
+}
+
+module.exports = TestEnvironment;
@@ -0,0 +1,179 @@
+import { TEqualityComparator } from './ChangesManager.types';
+
+/**
+ * Return true if both values have the same own enumerable keys and each key holds the same value (Object.is)
+ * Arrays are compared item by item
+ */
+const isShallowEqual = (previousValue: unknown, currentValue: unknown) => {
+  if (Object.is(previousValue, currentValue)) return true;
+
+  const areObjects =
+    typeof previousValue === 'object' &&
+    typeof currentValue === 'object' &&
+    previousValue !== null &&
+    currentValue !== null;
+
+  if (!areObjects) return false;
+
+  if (Array.isArray(previousValue) !== Array.isArray(currentValue)) {
+    return false;
+  }
+
+  const previousKeys = Object.keys(previousValue);
+  const currentKeys = Object.keys(currentValue);
+
+  if (previousKeys.length !== currentKeys.length) return false;
+
+  return previousKeys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(currentValue, key) &&
+      Object.is(previousValue[key], currentValue[key])
+  );
+};
+
+/**
+ * Return true if both values are structurally equal
+ * Supports primitives, arrays, plain objects, dates, maps and sets, circular references are compared by reference
+ */
+const isDeepEqual = (
+  previousValue: unknown,
+  currentValue: unknown,
+  visited: WeakMap<object, object> = new WeakMap()
+): boolean => {
+  if (Object.is(previousValue, currentValue)) return true;
+
+  const areObjects =
+    typeof previousValue === 'object' &&
+    typeof currentValue === 'object' &&
+    previousValue !== null &&
+    currentValue !== null;
+
+  if (!areObjects) return false;
+
+  const previous = previousValue as object;
+  const current = currentValue as object;
+
+  if (Object.getPrototypeOf(previous) !== Object.getPrototypeOf(current)) {
+    return false;
+  }
+
+  // if we already started comparing this pair we assume they are equal to avoid infinite loops
+  if (visited.get(previous) === current) return true;
+  visited.set(previous, current);
+
+  if (previous instanceof Date) {
+    return previous.getTime() === (current as Date).getTime();
+  }
+
+  if (previous instanceof Map) {
+    const currentMap = current as Map<unknown, unknown>;
+    if (previous.size !== currentMap.size) return false;
+
+    return Array.from(previous.entries()).every(
+      ([key, value]) =>
+        currentMap.has(key) && isDeepEqual(value, currentMap.get(key), visited)
+    );
+  }
+
+  if (previous instanceof Set) {
+    const currentSet = current as Set<unknown>;
+    if (previous.size !== currentSet.size) return false;
+
+    return Array.from(previous).every((value) => currentSet.has(value));
+  }
+
+  const previousKeys = Object.keys(previous);
+  const currentKeys = Object.keys(current);
+
+  if (previousKeys.length !== currentKeys.length) return false;
+
+  return previousKeys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(current, key) &&
+      isDeepEqual(previous[key], current[key], visited)
+  );
+};
+
+/**
+ * Creates a comparator which considers two values equal if they share the same identity field
+ * If both values are arrays, they are equal if they have the same length and every item shares the same identity field
+ * @param key - the identity field, or a function which returns the identity of the value
+ */
+const byKey = <TValue = any>(
+  key: PropertyKey | ((value: TValue) => unknown)
+): TEqualityComparator<TValue | TValue[]> => {
+  const getIdentity =
+    typeof key === 'function'
+      ? (key as (value: TValue) => unknown)
+      : (value: TValue) => value?.[key as keyof TValue];
+
+  const isSameIdentity = (previousValue: TValue, currentValue: TValue) => {
+    if (Object.is(previousValue, currentValue)) return true;
+    if (previousValue == null || currentValue == null) return false;
+
+    return Object.is(getIdentity(previousValue), getIdentity(currentValue));
+  };
+
+  return (previousValue, currentValue) => {
+    const areArrays =
+      Array.isArray(previousValue) && Array.isArray(currentValue);
+
+    if (!areArrays) {
+      return isSameIdentity(previousValue as TValue, currentValue as TValue);
+    }
+
+    const previousItems = previousValue as TValue[];
+    const currentItems = currentValue as TValue[];
+
+    if (previousItems.length !== currentItems.length) return false;
+
+    return previousItems.every((item, index) =>
+      isSameIdentity(item, currentItems[index])
+    );
+  };
+};
+
+/**
+ * Return true if both values are the same instant, dates are compared by their time instead of by their reference
+ */
+const isSameTime = (previousValue: unknown, currentValue: unknown) => {
+  if (Object.is(previousValue, currentValue)) return true;
+
+  return (
+    previousValue instanceof Date &&
+    currentValue instanceof Date &&
+    Object.is(previousValue.getTime(), currentValue.getTime())
+  );
+};
+
+/**
+ * Built-in equality strategies which can be used to decide if a property really changed
+ * @property identity - (default) values are equal if Object.is returns true
+ * @property shallow - values are equal if their own keys (or array items) are identical
+ * @property deep - values are equal if they are structurally equal
+ * @property byKey - creates a comparator which compares the values (or the items of arrays) by an identity field
+ * @property time - dates are equal if they are the same instant
+ * @example
+ * new ChangesManager({
+ *   component: this,
+ *   changeDetectorRef,
+ *   comparators: {
+ *     options: comparators.shallow,
+ *     users: comparators.byKey('id'),
+ *   },
+ *   callbacks: {
+ *     config: {
+ *       callback: this.onConfigChange,
+ *       comparator: comparators.deep,
+ *     },
+ *   },
+ * });
+ */
+export const comparators = {
+  identity: Object.is as TEqualityComparator<any>,
+  shallow: isShallowEqual as TEqualityComparator<any>,
+  deep: ((previousValue: unknown, currentValue: unknown) =>
+    isDeepEqual(previousValue, currentValue)) as TEqualityComparator<any>,
+  byKey,
+  time: isSameTime as TEqualityComparator<any>,
+};
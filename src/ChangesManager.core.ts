@@ -0,0 +1,2268 @@
+import { Observable, Subject } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
+import {
+  TCallbacksConfig,
+  TPropertiesByGroup,
+  TCallbacksByGroup,
+  TCallbacksConfigParameter,
+  TCallbackConfig,
+  TChangesSummary,
+  TChangeCallback,
+  TChangeCallbackValidator,
+  TComparatorsConfig,
+  TGroupProperty,
+  TEqualityComparator,
+  TChange,
+  TChangesManagerCoreParameters,
+  TSimpleChanges,
+  TDebouncedFunction,
+  TCallbackScheduling,
+  TPendingExecution,
+  TChangesManagerStats,
+  THistoryEntry,
+  TSnapshot,
+  TExecuteCallbacksOptions,
+  TExecutionOptions,
+  TWatchedProperty,
+  TErrorHandler,
+  TErrorContext,
+  TErrorPolicy,
+  TErrorsTracker,
+  TTransformsConfig,
+} from './ChangesManager.types';
+
+import {
+  createSimpleChange,
+  debounce,
+  getChangesSummary,
+  getGroupId,
+  getPathsChangesSummary,
+  getPropertyDescriptor,
+  getTransformsComparators,
+  isPromiseLike,
+  mergeChangesSummaries,
+  mergeSimpleChanges,
+  transformSimpleChanges,
+  scheduleTask,
+  sortGroupsByDependencies,
+} from './ChangesManager.utils';
+import {
+  ChangesManagerDiagnostics,
+  createDiagnostics,
+  isDiagnosticsEnabled,
+} from './ChangesManager.diagnostics';
+import { detectionScheduler } from './ChangesManager.scheduler';
+
+/**
+ * Context of the errors thrown by the detection, they don't belong to a group nor to a callback
+ */
+const DETECTION_ERROR_CONTEXT: TErrorContext<any> = {
+  groupId: null,
+  phase: 'detection',
+  callback: null,
+};
+
+/**
+ * Framework agnostic core of the changes manager
+ * Groups the properties, validates and executes the callbacks of the groups which changed and updates the view once they settled
+ * The changes could be received as changes per property or as the previous and next states of the object
+ * @template TComponent - the type of the object whose properties are watched
+ * @example
+ * class UserService {
+ *   userId: number = null;
+ *
+ *   private changesManager = new ChangesManagerCore({
+ *     component: this,
+ *     callbacks: { userId: this.loadUser },
+ *   });
+ *
+ *   setUserId(userId: number) {
+ *     const previousState = { userId: this.userId };
+ *
+ *     this.userId = userId;
+ *     this.changesManager.manageStateChanges(previousState, { userId });
+ *   }
+ *
+ *   loadUser() {}
+ * }
+ */
+export class ChangesManagerCore<TComponent extends object> {
+  /**
+   * Object whose properties are watched, e.g. a component, a service or a web component
+   */
+  protected component: object;
+
+  /**
+   * Configuration of the callbacks to be executed when the component receives changes
+   */
+  private callbacksConfig: TCallbacksConfig<TComponent> = null;
+
+  /**
+   * List properties by group helps to know which properties are related to each callback
+   */
+  private propertiesByGroup: TPropertiesByGroup<TComponent> = new Map();
+
+  /**
+   * List of callbacks by group of properties
+   */
+  private callbacksByGroup: TCallbacksByGroup<TComponent> = new Map();
+
+  /**
+   * Equality comparators passed by parameter, these have priority over the comparators defined in the callbacks configuration
+   */
+  private comparatorsConfig: TComparatorsConfig<TComponent> = {};
+
+  /**
+   * Equality comparators used to compute the didChange of each property, properties without comparator are compared with the equality
+   */
+  protected comparatorsByProperty: TComparatorsConfig<TComponent> = {};
+
+  /**
+   * Equality comparator of the properties without comparator
+   */
+  protected equality: TEqualityComparator<any> = Object.is;
+
+  /**
+   * Transforms applied to the values received by the properties before their changes are computed
+   */
+  private transforms: TTransformsConfig<TComponent> = {};
+
+  /**
+   *  (default: true) if true, the detect changes method will be called only if changes are detected, otherwise it will be called always
+   */
+  private strict: boolean = true;
+
+  private onChanges?: (changesSummary: TChangesSummary<TComponent>) => void;
+
+  /**
+   * Abort controllers of the callbacks which are currently running
+   * When a callback is executed again, the controller of the previous execution is aborted so async callbacks can cancel the superseded work
+   */
+  private abortControllersByCallback = new Map<
+    TChangeCallback<TComponent>,
+    AbortController
+  >();
+
+  /**
+   * Subject which emits the changes summary every time the changes are processed
+   */
+  private changesSubject = new Subject<TChangesSummary<TComponent>>();
+
+  /**
+   * Stream of the changes summaries processed by the manager, if the strict mode is enabled only the summaries with changes are emitted
+   * The stream completes when the manager is destroyed
+   */
+  public changes$: Observable<TChangesSummary<TComponent>> =
+    this.changesSubject.asObservable();
+
+  /**
+   * Subject which emits the id of a group every time its callbacks are going to be executed
+   */
+  private firedGroupsSubject = new Subject<string>();
+
+  /**
+   * Stream of the ids of the groups which fire, each group is emitted once per execution of the callbacks
+   * The stream completes when the manager is destroyed
+   */
+  public firedGroups$: Observable<string> =
+    this.firedGroupsSubject.asObservable();
+
+  /**
+   * Last known value of each property received by the manageChanges
+   */
+  protected latestValues = new Map<keyof TComponent, unknown>();
+
+  /**
+   * Receives every value stored in the latest values, e.g. to update the signals of the properties
+   */
+  protected onValueTracked: (
+    property: keyof TComponent,
+    value: unknown
+  ) => void = null;
+
+  /**
+   * True once the manager was destroyed, after that every execution is a no-op
+   */
+  private isDestroyed = false;
+
+  /**
+   * Removes the destroy hook registered in the destroyRef, if any
+   */
+  private unregisterDestroyRef: () => void = null;
+
+  /**
+   * Debounced version of the manageChanges, null if the manageChanges is not debounced
+   */
+  private manageChangesDebounced: TDebouncedFunction<
+    [TSimpleChanges],
+    Promise<TChangesSummary<TComponent>>
+  > = null;
+
+  /**
+   * Scheduling options of the callbacks configured with debounce, throttle or schedule
+   */
+  private schedulingByCallback = new Map<
+    TChangeCallback<TComponent>,
+    TCallbackScheduling
+  >();
+
+  /**
+   * Properties produced by each callback, used to feed the derived changes to the groups which depend on them
+   */
+  private producedPropertiesByCallback = new Map<
+    TChangeCallback<TComponent>,
+    Set<keyof TComponent>
+  >();
+
+  /**
+   * Fields produced or touched by each callback, recorded by the snapshots
+   */
+  private touchedPropertiesByCallback = new Map<
+    TChangeCallback<TComponent>,
+    Set<keyof TComponent>
+  >();
+
+  /**
+   * Executions of the scheduled callbacks which are waiting to be executed
+   */
+  private pendingExecutionsByCallback = new Map<
+    TChangeCallback<TComponent>,
+    TPendingExecution<TComponent>
+  >();
+
+  /**
+   * Timestamp of the last execution of the throttled callbacks
+   */
+  private lastExecutionByCallback = new Map<
+    TChangeCallback<TComponent>,
+    number
+  >();
+
+  /**
+   * Dot paths of the nested properties watched by the groups, e.g. 'config.filters.date'
+   */
+  private watchedPaths: string[] = [];
+
+  /**
+   * Default of the runOnFirstChange option of the groups
+   */
+  private runOnFirstChange = false;
+
+  /**
+   * Receives the errors thrown by the callbacks and by the validators
+   */
+  private onError: TErrorHandler<TComponent> = null;
+
+  /**
+   * What the manager does with the rest of the callbacks when one of them fails
+   */
+  private errorPolicy: TErrorPolicy = 'rethrow-after';
+
+  /**
+   * Updates the view once the callbacks settled, null if there is no view to update
+   */
+  private detect: () => void = null;
+
+  /**
+   * If true, the view is updated through the shared detection scheduler
+   */
+  private batchDetection = false;
+
+  /**
+   * Maximum number of entries kept in the history, the history is disabled if 0
+   */
+  private historySize = 0;
+
+  /**
+   * Ring buffer with the latest changes managed, from the oldest to the newest
+   */
+  private history: THistoryEntry<TComponent>[] = [];
+
+  /**
+   * Maximum number of snapshots kept to undo the executions, the snapshots are disabled if 0
+   */
+  private snapshotsSize = 0;
+
+  /**
+   * Snapshots which could be undone, from the oldest to the newest
+   */
+  private snapshots: TSnapshot<TComponent>[] = [];
+
+  /**
+   * Snapshots of the undone executions which could be redone, from the oldest to the newest
+   */
+  private redoSnapshots: TSnapshot<TComponent>[] = [];
+
+  /**
+   * Observed properties of the component with the function which restores their original definition
+   */
+  private observedProperties = new Map<keyof TComponent, () => void>();
+
+  /**
+   * Changes of the observed properties which are waiting to be managed
+   */
+  private pendingObservedChanges: TSimpleChanges = null;
+
+  /**
+   * Cancels the task which manages the pending observed changes
+   */
+  private cancelObservedChangesTask: () => void = null;
+
+  /**
+   * Diagnostics of the manager, null if they are disabled
+   */
+  private diagnostics: ChangesManagerDiagnostics<TComponent> = null;
+
+  /**
+   * Constructor of the core of the changes manager
+   * @param component - the object whose properties are watched, e.g. a component, a service or a web component
+   * @param debounceDelay - debounce the execution of the manageChanges method to avoid multiple executions in a short period of time (default: 0)
+   * @param callbacks - configuration of the callbacks to be executed when the properties change
+   * @param strict - (default: true) if true, the detect changes method will be called only if changes are detected, otherwise it will be called always
+   * @param onChangesCallbacks - callback to be executed after the changes are managed, if the strict mode is enabled, this callback will be executed only if changes are detected
+   * @param comparators - equality comparators per property, used to decide if a property really changed
+   * @param equality - (default: Object.is) equality comparator of the properties without comparator
+   * @param transforms - transforms per property, e.g. to coerce a string into a number, the transformed value is compared and written back to the component
+   * @param destroyRef - the manager is destroyed together with the lifecycle
+   * @param historySize - (default: 0) number of changes kept in the history of the manager, the history is disabled if 0
+   * @param snapshotsSize - (default: 0) number of snapshots of the fields touched by the callbacks kept to undo their executions, the snapshots are disabled if 0
+   * @param runOnFirstChange - (default: false) if true, the first binding of the properties also executes the callbacks, each group could override it
+   * @param onError - receives the errors thrown by the callbacks and by the validators, with the group and the phase in which they failed, the handled errors don't fail the execution
+   * @param errorPolicy - (default: 'rethrow-after') what the manager does with the rest of the callbacks when one of them fails
+   * @param detect - updates the view once the callbacks settled, nothing is updated if not provided
+   * @param batchDetection - (default: false) if true, the view is updated in the next frame together with the other managers instead of after each batch of callbacks
+   * @param diagnostics - (default: true in Angular dev mode) if true, the manager warns about the configuration mistakes and collects the stats, the production builds never collect them
+   */
+  constructor({
+    component,
+    destroyRef = null,
+    debounceDelay = 0,
+    callbacks: callbacksConfig,
+    strict = true,
+    onChanges,
+    comparators = {},
+    equality = Object.is,
+    transforms = {},
+    historySize = 0,
+    snapshotsSize = 0,
+    runOnFirstChange = false,
+    onError = null,
+    errorPolicy = 'rethrow-after',
+    detect = null,
+    batchDetection = false,
+    diagnostics = isDiagnosticsEnabled(),
+  }: TChangesManagerCoreParameters<TComponent>) {
+    this.component = component;
+    this.strict = strict;
+    this.onChanges = onChanges;
+    this.comparatorsConfig = comparators;
+    this.comparatorsByProperty = { ...comparators };
+    this.equality = equality;
+    this.transforms = transforms;
+    this.historySize = historySize;
+    this.snapshotsSize = snapshotsSize;
+    this.runOnFirstChange = runOnFirstChange;
+    this.onError = onError;
+    this.errorPolicy = errorPolicy;
+    this.detect = detect;
+    this.batchDetection = batchDetection;
+
+    this.diagnostics = createDiagnostics<TComponent>(component, diagnostics);
+
+    const shouldDebounceDetection = !isNaN(debounceDelay);
+
+    // the detections of all the managers are batched into the same frame
+    this.detectChangesDebounced = Object.assign(
+      () => detectionScheduler.request(this, this.detectChanges),
+      {
+        flush: () => detectionScheduler.flush(this),
+        cancel: () => detectionScheduler.cancel(this),
+      }
+    );
+
+    // the simple changes of the superseded calls are merged, so no change is dropped
+    this.manageChangesDebounced = shouldDebounceDetection
+      ? debounce(this._manageChanges, debounceDelay, ([pending], [next]) => [
+          mergeSimpleChanges(pending, next),
+        ])
+      : null;
+
+    const manageTransformedChanges =
+      this.manageChangesDebounced ??
+      ((simpleChanges: TSimpleChanges) => this._manageChanges(simpleChanges));
+
+    // the values are transformed and written back synchronously, only the callbacks are debounced
+    this.manageChanges = (simpleChanges) => {
+      try {
+        return manageTransformedChanges(this.transformChanges(simpleChanges));
+      } catch (error) {
+        // the synchronous errors also reject the promise
+        return Promise.reject(error);
+      }
+    };
+
+    this.setCallbacksConfig(callbacksConfig);
+
+    const unregisterDestroyRef = destroyRef?.onDestroy(() => {
+      // the destroyRef is already cleaning its hooks
+      this.unregisterDestroyRef = null;
+
+      this.destroy();
+    });
+
+    this.unregisterDestroyRef =
+      typeof unregisterDestroyRef === 'function' ? unregisterDestroyRef : null;
+  }
+
+  /**
+   * Returns true if the manager was destroyed, with the diagnostics enabled it also warns about the execution which was ignored
+   */
+  protected warnIfDestroyed = (methodName: string): boolean => {
+    if (!this.isDestroyed) return false;
+
+    if (this.diagnostics) {
+      console.warn(
+        `ChangesManager: ${methodName} was executed after the manager was destroyed, the execution was ignored`
+      );
+    }
+
+    return true;
+  };
+
+  /**
+   * Updates the callbacks configuration of the changes manager based on the configuration parameter
+   */
+  private setCallbacksConfig = (
+    callbacksConfig: TCallbacksConfigParameter<TComponent>
+  ) => {
+    if (!callbacksConfig) return;
+
+    this.applyCallbacksConfig(this.normalizeCallbacksConfig(callbacksConfig));
+  };
+
+  /**
+   * Normalizes both posible configuration styles to the array of groups
+   */
+  private normalizeCallbacksConfig = (
+    callbacksConfig: TCallbacksConfigParameter<TComponent>
+  ): TCallbacksConfig<TComponent> => {
+    if (!callbacksConfig) return [];
+
+    return Array.isArray(callbacksConfig)
+      ? this.getCallbacksConfigFromParameter(callbacksConfig)
+      : this.getCallbacksConfigFromParameterObject(callbacksConfig);
+  };
+
+  /**
+   * Computes the derivatives of the normalized configuration and replaces the current ones
+   * Every change of the configuration rebuilds all the derivatives, the groups are sorted and checked for cycles again
+   * The derivatives are computed first, so an invalid configuration doesn't modify the state of the manager
+   * The pending scheduled executions of the callbacks which are not part of the configuration anymore are dropped
+   */
+  private applyCallbacksConfig = (
+    callbacksConfig: TCallbacksConfig<TComponent>
+  ) => {
+    const {
+      callbacksByGroup,
+      propertiesByGroup,
+      comparatorsByProperty,
+      schedulingByCallback,
+      producedPropertiesByCallback,
+      touchedPropertiesByCallback,
+    } = this.computeCallbackConfigDerivatives(callbacksConfig);
+
+    this.callbacksConfig = callbacksConfig;
+    this.propertiesByGroup = propertiesByGroup;
+    this.callbacksByGroup = callbacksByGroup;
+    this.schedulingByCallback = schedulingByCallback;
+    this.producedPropertiesByCallback = producedPropertiesByCallback;
+    this.touchedPropertiesByCallback = touchedPropertiesByCallback;
+
+    const watchedPaths = new Set<string>();
+
+    propertiesByGroup.forEach((properties) =>
+      properties.forEach((property) => {
+        if (String(property).includes('.')) watchedPaths.add(String(property));
+      })
+    );
+
+    this.watchedPaths = Array.from(watchedPaths);
+
+    this.diagnostics?.trackCallbacksConfig(
+      propertiesByGroup,
+      producedPropertiesByCallback
+    );
+
+    // the comparators of the transforms have the lowest priority
+    this.comparatorsByProperty = {
+      ...getTransformsComparators(this.transforms),
+      ...comparatorsByProperty,
+      ...this.comparatorsConfig,
+    };
+
+    const callbacks = new Set(
+      callbacksConfig.map(([, { callback }]) => callback)
+    );
+
+    this.pendingExecutionsByCallback.forEach((pendingExecution, callback) => {
+      if (callbacks.has(callback)) return;
+
+      pendingExecution.cancel();
+      pendingExecution.resolve();
+
+      this.pendingExecutionsByCallback.delete(callback);
+      this.lastExecutionByCallback.delete(callback);
+    });
+  };
+
+  /**
+   * Adds a group of properties with its callback to the current configuration
+   * @param properties - the input properties of the group
+   * @param callbackConfig - the callback or the configuration of the callback, its changes summary is narrowed to the properties of the group
+   * @returns a function which removes the added group, other groups with the same properties are not affected
+   * @throws if the group creates a cyclic dependency, in that case the configuration is not modified
+   * @example
+   * const removeAutosave = this.changesManager.addCallback(['form'], { callback: this.save, debounce: 1000 });
+   *
+   * // when the feature is disabled
+   * removeAutosave();
+   */
+  public addCallback = <TProperty extends TGroupProperty<TComponent>>(
+    properties: TProperty[],
+    callbackConfig:
+      | TCallbackConfig<TComponent, TProperty>
+      | TChangeCallback<TComponent, TProperty>
+  ): (() => void) => {
+    if (this.warnIfDestroyed('addCallback')) return () => {};
+
+    const [group] = this.getCallbacksConfigFromParameter([
+      [
+        properties,
+        callbackConfig as
+          | TCallbackConfig<TComponent>
+          | TChangeCallback<TComponent>,
+      ],
+    ]);
+
+    this.applyCallbacksConfig([...(this.callbacksConfig ?? []), group]);
+
+    return () => {
+      if (!this.callbacksConfig?.includes(group)) return;
+
+      this.applyCallbacksConfig(
+        this.callbacksConfig.filter((current) => current !== group)
+      );
+    };
+  };
+
+  /**
+   * Removes all the groups which execute the callback
+   * @param callback - the callback to remove
+   * @returns true if at least one group was removed
+   */
+  public removeCallback = (callback: TChangeCallback<TComponent>): boolean => {
+    if (this.warnIfDestroyed('removeCallback')) return false;
+
+    const callbacksConfig = this.callbacksConfig ?? [];
+
+    const remainingConfig = callbacksConfig.filter(
+      ([, callbackConfig]) => callbackConfig.callback !== callback
+    );
+
+    if (remainingConfig.length === callbacksConfig.length) return false;
+
+    this.applyCallbacksConfig(remainingConfig);
+
+    return true;
+  };
+
+  /**
+   * Replaces the whole callbacks configuration, accepts the same configuration of the constructor
+   * @throws if the configuration has a cyclic dependency, in that case the current configuration is kept
+   */
+  public replaceCallbacks = (
+    callbacksConfig: TCallbacksConfigParameter<TComponent>
+  ) => {
+    if (this.warnIfDestroyed('replaceCallbacks')) return;
+
+    this.applyCallbacksConfig(this.normalizeCallbacksConfig(callbacksConfig));
+  };
+
+  /**
+   * Returns a stream which emits the change of the property every time the property really changes
+   * @param property - the property to observe
+   * @example
+   * this.changesManager.select('userId').subscribe(({ currentValue }) => {
+   *   console.log('userId changed', currentValue);
+   * });
+   */
+  public select = <TKey extends keyof TComponent>(
+    property: TKey
+  ): Observable<TChange<TComponent[TKey]>> => {
+    return this.changes$.pipe(
+      filter((changesSummary) => Boolean(changesSummary[property]?.didChange)),
+      map(
+        (changesSummary) =>
+          changesSummary[property] as TChange<TComponent[TKey]>
+      )
+    );
+  };
+
+  /**
+   * Returns a stream which emits the changes summary every time at least one of the properties of the group really changes
+   * @param properties - the group of properties to observe
+   * @example
+   * this.changesManager.selectGroup(['name', 'surname']).subscribe((changesSummary) => {
+   *   console.log('name or surname changed', changesSummary);
+   * });
+   */
+  public selectGroup = (
+    properties: (keyof TComponent)[]
+  ): Observable<TChangesSummary<TComponent>> => {
+    return this.changes$.pipe(
+      filter((changesSummary) =>
+        properties.some((property) => changesSummary[property]?.didChange)
+      )
+    );
+  };
+
+  /**
+   * Observes the writes of properties which are not inputs, e.g. state modified by services or event handlers
+   * The properties are wrapped with accessors, the writes of the same tick are merged and managed like the changes of the inputs
+   * The original definition of the properties is restored with the returned function or when the manager is destroyed
+   * @param properties - the properties to observe, the fields should be already initialized (e.g. constructor body or ngOnInit)
+   * @returns a function which stops observing the properties
+   * @throws if a property is not configurable
+   * @example
+   * constructor() {
+   *   this.changesManager.observe(['selectedTab', 'items']);
+   * }
+   */
+  public observe = (properties: (keyof TComponent)[]): (() => void) => {
+    if (this.warnIfDestroyed('observe')) return () => {};
+
+    const observedProperties = properties.filter(
+      (property) => !this.observedProperties.has(property)
+    );
+
+    observedProperties.forEach((property) => {
+      this.observedProperties.set(property, this.observeProperty(property));
+    });
+
+    return () => {
+      observedProperties.forEach((property) => {
+        this.observedProperties.get(property)?.();
+        this.observedProperties.delete(property);
+      });
+    };
+  };
+
+  /**
+   * Wraps the property with accessors which queue its changes, accessors of the component are preserved
+   * @returns a function which restores the original definition of the property
+   */
+  private observeProperty = (property: keyof TComponent): (() => void) => {
+    const component = this.component as TComponent;
+    const ownDescriptor = Object.getOwnPropertyDescriptor(component, property);
+    const descriptor =
+      ownDescriptor ?? getPropertyDescriptor(component, property);
+
+    if (descriptor?.configurable === false) {
+      throw new Error(
+        `ChangesManager: the property ${String(
+          property
+        )} is not configurable, so it cannot be observed`
+      );
+    }
+
+    const isAccessor = Boolean(descriptor?.get || descriptor?.set);
+    let value = descriptor?.value;
+
+    const getValue = (): unknown =>
+      isAccessor ? descriptor.get?.call(component) : value;
+
+    const setValue = (nextValue: unknown) => {
+      if (!isAccessor) {
+        value = nextValue;
+
+        return;
+      }
+
+      descriptor.set?.call(component, nextValue);
+    };
+
+    Object.defineProperty(component, property, {
+      configurable: true,
+      enumerable: descriptor?.enumerable ?? true,
+      get: getValue,
+      set: (nextValue: unknown) => {
+        const previousValue = getValue();
+
+        setValue(nextValue);
+
+        this.queueObservedChange(property, previousValue, getValue());
+      },
+    });
+
+    return () => {
+      // accessors of the class are defined in the prototype
+      if (isAccessor && !ownDescriptor) {
+        delete component[property];
+
+        return;
+      }
+
+      Object.defineProperty(
+        component,
+        property,
+        isAccessor
+          ? ownDescriptor
+          : {
+              configurable: true,
+              enumerable: ownDescriptor?.enumerable ?? true,
+              writable: ownDescriptor?.writable ?? true,
+              value,
+            }
+      );
+    };
+  };
+
+  /**
+   * Adds the change of an observed property to the pending changes, which are managed in a microtask
+   */
+  private queueObservedChange = (
+    property: keyof TComponent,
+    previousValue: unknown,
+    currentValue: unknown
+  ) => {
+    if (this.isDestroyed) return;
+
+    this.pendingObservedChanges = mergeSimpleChanges(
+      this.pendingObservedChanges,
+      {
+        [property]: createSimpleChange(previousValue, currentValue, false),
+      }
+    );
+
+    if (this.cancelObservedChangesTask) return;
+
+    this.cancelObservedChangesTask = scheduleTask(
+      this.manageObservedChanges,
+      'microtask'
+    );
+  };
+
+  private manageObservedChanges = () => {
+    const simpleChanges = this.pendingObservedChanges;
+
+    this.pendingObservedChanges = null;
+    this.cancelObservedChangesTask = null;
+
+    if (!simpleChanges) return;
+
+    // nobody awaits the writes of the observed properties
+    this.manageChanges(simpleChanges).catch(this.logUnhandledError);
+  };
+
+  /**
+   * Stores the latest values of the properties present in the changes summary
+   * The changes of the nested paths are not stored, they are computed from the values of their root properties
+   */
+  private trackValues = (changesSummary: TChangesSummary<TComponent>) => {
+    Object.keys(changesSummary).forEach((key) => {
+      if (key.includes('.')) return;
+
+      const property = key as keyof TComponent;
+      const { currentValue } = changesSummary[property];
+
+      this.latestValues.set(property, currentValue);
+      this.onValueTracked?.(property, currentValue);
+    });
+  };
+
+  /**
+   * Executes immediately the pending debounced executions of the manageChanges, the scheduled callbacks and the pending detection of the manager
+   */
+  public flush = () => {
+    this.cancelObservedChangesTask?.();
+    this.manageObservedChanges();
+
+    this.manageChangesDebounced?.flush();
+
+    this.pendingExecutionsByCallback.forEach((pendingExecution, callback) => {
+      pendingExecution.cancel();
+      this.executePendingExecution(callback);
+    });
+
+    this.detectChangesDebounced.flush();
+  };
+
+  /**
+   * Drops the pending debounced executions and aborts the async callbacks which are still running
+   * The promises of the dropped executions resolve with undefined
+   */
+  public cancel = () => {
+    this.cancelObservedChangesTask?.();
+    this.cancelObservedChangesTask = null;
+    this.pendingObservedChanges = null;
+
+    this.manageChangesDebounced?.cancel();
+    this.detectChangesDebounced.cancel();
+
+    this.pendingExecutionsByCallback.forEach((pendingExecution) => {
+      pendingExecution.cancel();
+      pendingExecution.resolve();
+    });
+
+    this.pendingExecutionsByCallback.clear();
+
+    this.abortControllersByCallback.forEach((controller) => controller.abort());
+    this.abortControllersByCallback.clear();
+  };
+
+  /**
+   * Destroys the changes manager, cancels the pending executions and completes the changes streams
+   * After this, every execution of the manager is a no-op
+   * If the manager was created in an injection context, it's destroyed automatically together with the component
+   */
+  public destroy = () => {
+    if (this.isDestroyed) return;
+
+    this.diagnostics?.reportUnusedGroups();
+
+    this.cancel();
+    this.isDestroyed = true;
+
+    this.observedProperties.forEach((restoreProperty) => restoreProperty());
+    this.observedProperties.clear();
+
+    this.changesSubject.complete();
+    this.firedGroupsSubject.complete();
+
+    this.unregisterDestroyRef?.();
+    this.unregisterDestroyRef = null;
+  };
+
+  /**
+   * Updates the view synchronously, nothing happens if the manager has no view to update
+   */
+  public detectChanges = () => {
+    if (this.warnIfDestroyed('detectChanges')) return;
+    if (!this.detect) return;
+
+    this.diagnostics?.trackDetectChanges();
+
+    this.detect();
+  };
+
+  /**
+   * Updates the view once a batch of callbacks settled, through the shared scheduler if the detection is batched
+   * The error of a synchronous detection, e.g. of a destroyed view, is reported to the errors tracker of the batch
+   */
+  private requestDetection = (errors: TErrorsTracker<TComponent>) => {
+    if (this.batchDetection) {
+      // the execution doesn't wait for the batched detection, so its error is handled here
+      this.detectChangesDebounced().catch(this.handleDetectionError);
+
+      return;
+    }
+
+    try {
+      this.detectChanges();
+    } catch (error) {
+      errors.report(error, DETECTION_ERROR_CONTEXT);
+    }
+  };
+
+  /**
+   * Passes the error of a batched detection to the onError handler, without it the error is logged
+   */
+  private handleDetectionError = (error: unknown) => {
+    if (this.onError) {
+      this.onError(error, DETECTION_ERROR_CONTEXT);
+
+      return;
+    }
+
+    console.error('ChangesManager: the batched detection failed', error);
+  };
+
+  /**
+   * Returns the diagnostics collected by the manager: executions of the manageChanges and the detectChanges,
+   * execution times per callback and the groups which never fired
+   * The diagnostics are only collected if they are enabled, by default in Angular dev mode, otherwise it returns null
+   */
+  public getStats = (): TChangesManagerStats<TComponent> => {
+    return this.diagnostics?.getStats() ?? null;
+  };
+
+  /**
+   * Requests the update of the view to the shared scheduler, the detections of all the managers are executed together in the next frame
+   */
+  public detectChangesDebounced: TDebouncedFunction<[], void>;
+
+  /**
+   * This method should be called every time the properties change, e.g. on the ngOnChanges lifecycle method of a component
+   * @param simpleChanges the changes per property, e.g. the SimpleChanges object of Angular
+   * @returns a promise which resolves with the changes summary once all the callbacks settled and the detectChanges was executed
+   * the changes summary is an object where the keys are the input attributes and the values are the simple changes
+   * the simple changes are extended with a didChange property which indicates if the value changed or not
+   * if the execution is debounced, the calls superseded by a later one resolve once the later call completes
+   */
+  public manageChanges: (
+    simpleChanges: TSimpleChanges
+  ) => Promise<TChangesSummary<TComponent>>;
+
+  /**
+   * Manages the changes between two states of the object, e.g. in services or web components which don't receive the changes per property
+   * Every property of any of the states is part of the changes, the properties missing in the previous state are first changes
+   * @param previousState - the values of the properties before the change
+   * @param nextState - the values of the properties after the change
+   * @returns the same promise returned by the manageChanges method
+   * @example
+   * const previousState = { ...this.state };
+   *
+   * this.state = { ...this.state, page: 2 };
+   * this.changesManager.manageStateChanges(previousState, this.state);
+   */
+  public manageStateChanges = (
+    previousState: Partial<TComponent>,
+    nextState: Partial<TComponent>
+  ): Promise<TChangesSummary<TComponent>> => {
+    const properties = new Set([
+      ...Object.keys(previousState ?? {}),
+      ...Object.keys(nextState ?? {}),
+    ]);
+
+    const simpleChanges = Array.from(properties).reduce(
+      (accumulator, property) => ({
+        ...accumulator,
+        [property]: createSimpleChange(
+          previousState?.[property],
+          nextState?.[property],
+          !previousState || !(property in previousState)
+        ),
+      }),
+      {} as TSimpleChanges
+    );
+
+    return this.manageChanges(simpleChanges);
+  };
+
+  /**
+   * The configuration parameter is not normalized, this method normalizes so both posible configurations styles are supported
+   */
+  private getCallbacksConfigFromParameter = (
+    callbacksConfig: [
+      TWatchedProperty<TComponent>[],
+      TCallbackConfig<TComponent> | TChangeCallback<TComponent>
+    ][]
+  ): TCallbacksConfig<TComponent> => {
+    const sanitizedConfig = callbacksConfig.map(([keys, callbackConfig]) => {
+      const isFunction = typeof callbackConfig === 'function';
+
+      return [
+        keys,
+        isFunction
+          ? {
+              callback: callbackConfig,
+              validator: null,
+            }
+          : callbackConfig,
+      ];
+    });
+
+    return sanitizedConfig as TCallbacksConfig<TComponent>;
+  };
+
+  /**
+   * the more basic configuration of the callbacks is an object with the attributes as keys and the callback as value
+   * this methods normalizes the configuration to the more complex one which is an array of arrays
+   */
+  private getCallbacksConfigFromParameterObject = (
+    callbacksConfig: TCallbacksConfigParameter<TComponent>
+  ): TCallbacksConfig<TComponent> => {
+    const stateProps = Object.keys(callbacksConfig ?? {});
+
+    const callbacksSource = stateProps.reduce(
+      (
+        accumulator: [[keyof TComponent], TCallbackConfig<TComponent>][],
+        key
+      ) => {
+        const config = callbacksConfig[key] as
+          | TCallbackConfig<TComponent>
+          | TChangeCallback<TComponent>
+          | (TCallbackConfig<TComponent> | TChangeCallback<TComponent>)[];
+
+        // every item of the array is added to the group of the property in the same order
+        const configs = Array.isArray(config) ? config : [config];
+
+        const changesConfigs = configs.map((itemConfig) => {
+          const isFunction = typeof itemConfig === 'function';
+
+          const callbackConfig = (
+            isFunction
+              ? {
+                  callback: itemConfig,
+                  validator: null,
+                }
+              : itemConfig
+          ) as TCallbackConfig<TComponent>;
+
+          const keys = [key];
+
+          return [keys, callbackConfig] as [
+            [keyof TComponent],
+            TCallbackConfig<TComponent>
+          ];
+        });
+
+        return [...accumulator, ...changesConfigs];
+      },
+      []
+    );
+
+    return callbacksSource;
+  };
+
+  /**
+   * This method computes the propertiesByGroup and callbacksByGroup from the callbacksConfig
+   * @param callbacksConfig the callbacks configuration
+   * @returns the propertiesByGroup, callbacksByGroup and comparatorsByProperty
+   * propertiesByGroup is a map where the key is the group id and the value is a set of attributes which trigger the callback
+   * callbacksByGroup is a map where the key is the group id and the value the callbacks to execute sorted by priority
+   * entries with the same properties (in any order) are merged into the same group, its callbacks keep the configuration order
+   * comparators are resolved per property, the last group which defines one wins
+   * comparatorsByProperty is an object with the comparator of each property of the groups which define one
+   * schedulingByCallback is a map where the key is the callback and the value its scheduling options, the first group which defines them wins
+   * producedPropertiesByCallback is a map where the key is the callback and the value the properties produced by its groups
+   * touchedPropertiesByCallback is a map where the key is the callback and the value the properties produced or touched by its groups
+   * the groups are sorted by the highest priority of their callbacks and then by their dependencies, so the groups which produce a property are placed before the groups which depend on it
+   * @throws if there is a cyclic dependency between the groups
+   */
+  private computeCallbackConfigDerivatives = (
+    callbacksConfig: TCallbacksConfig<TComponent>
+  ): {
+    propertiesByGroup: TPropertiesByGroup<TComponent>;
+    callbacksByGroup: TCallbacksByGroup<TComponent>;
+    comparatorsByProperty: TComparatorsConfig<TComponent>;
+    schedulingByCallback: Map<TChangeCallback<TComponent>, TCallbackScheduling>;
+    producedPropertiesByCallback: Map<
+      TChangeCallback<TComponent>,
+      Set<keyof TComponent>
+    >;
+    touchedPropertiesByCallback: Map<
+      TChangeCallback<TComponent>,
+      Set<keyof TComponent>
+    >;
+  } => {
+    const propertiesByGroup: TPropertiesByGroup<TComponent> = new Map();
+    const callbacksByGroup: TCallbacksByGroup<TComponent> = new Map();
+    const comparatorsByProperty: TComparatorsConfig<TComponent> = {};
+    const schedulingByCallback = new Map<
+      TChangeCallback<TComponent>,
+      TCallbackScheduling
+    >();
+    const producedPropertiesByCallback = new Map<
+      TChangeCallback<TComponent>,
+      Set<keyof TComponent>
+    >();
+    const touchedPropertiesByCallback = new Map<
+      TChangeCallback<TComponent>,
+      Set<keyof TComponent>
+    >();
+    const producedPropertiesByGroup = new Map<string, Set<keyof TComponent>>();
+
+    callbacksConfig.forEach(([props, callbackConfig]) => {
+      const {
+        callback,
+        validator,
+        comparator,
+        debounce: debounceDelay,
+        throttle,
+        schedule,
+        produces = [],
+        touches = [],
+      } = callbackConfig;
+
+      // groups cannot be duplicated, so we use the sorted props as the key, the props of the configuration are not modified
+      const groupId = getGroupId(props);
+
+      if (!propertiesByGroup.has(groupId)) {
+        propertiesByGroup.set(groupId, new Set(props));
+        callbacksByGroup.set(groupId, []);
+        producedPropertiesByGroup.set(groupId, new Set());
+      }
+
+      // the callbacks are deduplicated when the changes are processed, so it doesn't matter if the same callback is in more than one group
+      callbacksByGroup.get(groupId).push({
+        callback,
+        validator: validator ?? null,
+        priority: callbackConfig.priority ?? 0,
+        runOnFirstChange:
+          callbackConfig.runOnFirstChange ?? this.runOnFirstChange,
+      });
+
+      produces.forEach((property) =>
+        producedPropertiesByGroup.get(groupId).add(property)
+      );
+
+      if (produces.length) {
+        const producedProperties =
+          producedPropertiesByCallback.get(callback) ?? new Set();
+
+        produces.forEach((property) => producedProperties.add(property));
+        producedPropertiesByCallback.set(callback, producedProperties);
+      }
+
+      if (produces.length || touches.length) {
+        const touchedProperties =
+          touchedPropertiesByCallback.get(callback) ?? new Set();
+
+        [...produces, ...touches].forEach((property) =>
+          touchedProperties.add(property)
+        );
+        touchedPropertiesByCallback.set(callback, touchedProperties);
+      }
+
+      const isScheduled =
+        debounceDelay !== undefined ||
+        throttle !== undefined ||
+        schedule !== undefined;
+
+      if (isScheduled && !schedulingByCallback.has(callback)) {
+        schedulingByCallback.set(callback, {
+          debounce: debounceDelay,
+          throttle,
+          schedule,
+        });
+      }
+
+      if (!comparator) return;
+
+      // the didChange is computed per property, so the comparator of the group applies to each one of its properties
+      props.forEach((prop) => {
+        Object.assign(comparatorsByProperty, { [prop]: comparator });
+      });
+    });
+
+    const sortByPriority = <TItem>(
+      items: TItem[],
+      getPriority: (item: TItem) => number
+    ) =>
+      // the index keeps the configuration order of the items with the same priority
+      items
+        .map((item, index) => ({ item, index, priority: getPriority(item) }))
+        .sort((a, b) => b.priority - a.priority || a.index - b.index)
+        .map(({ item }) => item);
+
+    const groupIdsByPriority = sortByPriority(
+      Array.from(propertiesByGroup.keys()),
+      (groupId) =>
+        Math.max(
+          ...callbacksByGroup.get(groupId).map(({ priority }) => priority)
+        )
+    );
+
+    const sortedGroupIds = sortGroupsByDependencies(
+      new Map(
+        groupIdsByPriority.map((groupId) => [
+          groupId,
+          {
+            properties: propertiesByGroup.get(groupId),
+            produces: producedPropertiesByGroup.get(groupId),
+          },
+        ])
+      )
+    );
+
+    // the maps keep the insertion order, so the callbacks are executed in dependency order
+    return {
+      callbacksByGroup: new Map(
+        sortedGroupIds.map((groupId) => [
+          groupId,
+          sortByPriority(
+            callbacksByGroup.get(groupId),
+            ({ priority }) => priority
+          ),
+        ])
+      ),
+      propertiesByGroup: new Map(
+        sortedGroupIds.map((groupId) => [
+          groupId,
+          propertiesByGroup.get(groupId),
+        ])
+      ),
+      comparatorsByProperty,
+      schedulingByCallback,
+      producedPropertiesByCallback,
+      touchedPropertiesByCallback,
+    };
+  };
+
+  /**
+   * This method is called when a change is detected in the component
+   * returns the callbacks which should be executed based on the changes detected in the component
+   * the first binding of the properties only executes the callbacks with the runOnFirstChange option, even if the group was already initialized by other properties
+   * if no changes are detected, it returns an empty array
+   * @param changesSummary the changes parameters
+   * @param options allows to restrict the groups, execute them even without changes and skip their validators
+   * @param onGroupFired receives the id of every group which fires, nothing is tracked without it, e.g. in a dry run
+   */
+  private getCallbacksWhichShouldBeExecuted = (
+    changesSummary: TChangesSummary<TComponent>,
+    {
+      groupIds = null,
+      force = false,
+      avoidValidations = false,
+    }: TExecutionOptions = {},
+    onGroupFired: (groupId: string) => void = null
+  ) => {
+    const properties = Object.keys(changesSummary);
+
+    const callbacksGroups = Array.from(this.callbacksByGroup).filter(
+      ([groupId]) => !groupIds || groupIds.has(groupId)
+    );
+
+    const callbacks = callbacksGroups.reduce(
+      (accumulator, [groupId, groupCallbacks]) => {
+        const groupAttributes = this.propertiesByGroup.get(groupId);
+
+        const groupProperties = properties.filter((property) =>
+          groupAttributes.has(property as keyof TComponent)
+        );
+
+        const hasChanges = groupProperties.some(
+          (property) => changesSummary[property].didChange
+        );
+
+        // the first binding of a property is not a change, but the callbacks which run on first change are executed with it
+        const hasFirstChanges = groupProperties.some(
+          (property) => changesSummary[property].firstChange
+        );
+
+        const groupCallbacksToExecute = groupCallbacks.filter(
+          ({ runOnFirstChange }) =>
+            force || hasChanges || (hasFirstChanges && runOnFirstChange)
+        );
+
+        if (groupCallbacksToExecute.length) {
+          onGroupFired?.(groupId);
+
+          groupCallbacksToExecute.forEach(({ callback, validator }) => {
+            const validators = accumulator.get(callback) ?? new Set();
+
+            if (validator && !avoidValidations) validators.add(validator);
+
+            accumulator.set(callback, validators);
+          });
+        }
+
+        return accumulator;
+      },
+      new Map<
+        TChangeCallback<TComponent>,
+        Set<TChangeCallbackValidator<TComponent>>
+      >()
+    );
+
+    return callbacks;
+  };
+
+  /**
+   * Executes a single callback with a fresh abort signal
+   * If there is a previous execution of the same callback still running, it gets aborted
+   * @returns a promise if the callback is async, errors of superseded executions are ignored
+   */
+  private runCallback = (
+    callback: TChangeCallback<TComponent>,
+    changesSummary: TChangesSummary<TComponent>,
+    errors: TErrorsTracker<TComponent>
+  ): Promise<void> | void => {
+    if (this.warnIfDestroyed('callback')) return;
+
+    this.abortControllersByCallback.get(callback)?.abort();
+
+    const controller = new AbortController();
+    this.abortControllersByCallback.set(callback, controller);
+
+    const stopTimer = this.diagnostics?.startCallbackTimer(callback);
+
+    const releaseController = () => {
+      stopTimer?.();
+
+      const isCurrentExecution =
+        this.abortControllersByCallback.get(callback) === controller;
+
+      if (isCurrentExecution) this.abortControllersByCallback.delete(callback);
+    };
+
+    const reportError = (error: unknown) =>
+      errors.report(error, {
+        groupId: this.getGroupIdOfCallback(callback),
+        phase: 'callback',
+        callback,
+      });
+
+    let result: unknown;
+
+    try {
+      result = callback.call(this.component, changesSummary, {
+        signal: controller.signal,
+      });
+    } catch (error) {
+      releaseController();
+      reportError(error);
+
+      return;
+    }
+
+    if (!isPromiseLike(result)) {
+      releaseController();
+
+      return;
+    }
+
+    return Promise.resolve(result).then(releaseController, (error) => {
+      releaseController();
+
+      // the execution was superseded, so the error is expected
+      if (controller.signal.aborted) return;
+
+      reportError(error);
+    });
+  };
+
+  /**
+   * Waits until all the async callbacks of the batch settle, errors are rethrown after all of them finished
+   */
+  private waitForCallbacks = (pendingCallbacks: Promise<void>[]) => {
+    const settledCallbacks = pendingCallbacks.map((pendingCallback) =>
+      pendingCallback.then(
+        () => null,
+        (error: unknown) => ({ error })
+      )
+    );
+
+    return Promise.all(settledCallbacks).then((results) => {
+      const failure = results.find(Boolean);
+
+      if (failure) throw failure.error;
+    });
+  };
+
+  /**
+   * Returns true if all the validators of the callback pass, the validator which rejected is recorded in the history entry
+   */
+  private validateCallback = (
+    callback: TChangeCallback<TComponent>,
+    validators: Set<TChangeCallbackValidator<TComponent>>,
+    changesSummary: TChangesSummary<TComponent>,
+    historyEntry: THistoryEntry<TComponent>,
+    errors: TErrorsTracker<TComponent>
+  ): boolean => {
+    const rejectedValidator = Array.from(validators).find((validator) => {
+      try {
+        return !validator(changesSummary);
+      } catch (error) {
+        // a failing validator prevents the execution of the callback
+        errors.report(error, {
+          groupId: this.getGroupIdOfCallback(callback, validator),
+          phase: 'validator',
+          callback,
+        });
+
+        return true;
+      }
+    });
+
+    if (!rejectedValidator) return true;
+
+    historyEntry?.rejectedValidators.push(rejectedValidator);
+
+    return false;
+  };
+
+  /**
+   * Validates and executes a batch of callbacks, the detectChanges is executed once all the callbacks of the batch settled
+   */
+  private executeBatch = (
+    callbacks: Map<
+      TChangeCallback<TComponent>,
+      Set<TChangeCallbackValidator<TComponent>>
+    >,
+    changesSummary: TChangesSummary<TComponent>,
+    historyEntry: THistoryEntry<TComponent> = null
+  ): Promise<void> => {
+    const errors = this.createErrorsTracker();
+
+    const pendingCallbacks = Array.from(callbacks.entries()).reduce(
+      (accumulator, [callback, validators]) => {
+        if (errors.isAborted()) return accumulator;
+
+        const shouldExecuteCallback = this.validateCallback(
+          callback,
+          validators,
+          changesSummary,
+          historyEntry,
+          errors
+        );
+
+        if (!shouldExecuteCallback) return accumulator;
+
+        historyEntry?.executedCallbacks.push(callback);
+        const result = this.runCallback(callback, changesSummary, errors);
+
+        if (result) accumulator.push(result);
+
+        return accumulator;
+      },
+      [] as Promise<void>[]
+    );
+
+    if (!pendingCallbacks.length) {
+      this.requestDetection(errors);
+
+      return new Promise<void>((resolve) => resolve(errors.settle()));
+    }
+
+    return this.waitForCallbacks(pendingCallbacks).then(() => {
+      // async callbacks are aborted when the manager is destroyed, so there is nothing to update
+      if (!this.isDestroyed) this.requestDetection(errors);
+
+      errors.settle();
+    });
+  };
+
+  /**
+   * Executes the pending execution of a scheduled callback with the merged changes summary
+   */
+  private executePendingExecution = (callback: TChangeCallback<TComponent>) => {
+    const pendingExecution = this.pendingExecutionsByCallback.get(callback);
+    if (!pendingExecution) return;
+
+    this.pendingExecutionsByCallback.delete(callback);
+    this.lastExecutionByCallback.set(callback, Date.now());
+
+    const { changesSummary, validators, resolve, reject, historyEntry } =
+      pendingExecution;
+
+    this.executeBatch(
+      new Map([[callback, validators]]),
+      changesSummary,
+      historyEntry
+    ).then(resolve, reject);
+  };
+
+  /**
+   * Schedules the execution of a callback based on its scheduling options
+   * If there is already a pending execution, the changes summaries are merged keeping the oldest previousValue and the newest currentValue
+   * @returns a promise which resolves once the scheduled execution settles
+   */
+  private scheduleCallback = (
+    callback: TChangeCallback<TComponent>,
+    validators: Set<TChangeCallbackValidator<TComponent>>,
+    changesSummary: TChangesSummary<TComponent>,
+    historyEntry: THistoryEntry<TComponent>
+  ): Promise<void> => {
+    const {
+      debounce: debounceDelay,
+      throttle,
+      schedule,
+    } = this.schedulingByCallback.get(callback);
+
+    const execute = () => this.executePendingExecution(callback);
+    const currentExecution = this.pendingExecutionsByCallback.get(callback);
+
+    if (currentExecution) {
+      currentExecution.changesSummary = mergeChangesSummaries(
+        currentExecution.changesSummary,
+        changesSummary
+      );
+
+      validators.forEach((validator) =>
+        currentExecution.validators.add(validator)
+      );
+
+      currentExecution.historyEntry = historyEntry;
+
+      // debounced callbacks restart the timer on every change
+      if (debounceDelay !== undefined) {
+        currentExecution.cancel();
+        currentExecution.cancel = scheduleTask(execute, debounceDelay);
+      }
+
+      return currentExecution.promise;
+    }
+
+    const pendingExecution = {
+      changesSummary,
+      validators: new Set(validators),
+      cancel: null,
+      historyEntry,
+    } as TPendingExecution<TComponent>;
+
+    pendingExecution.promise = new Promise<void>((resolve, reject) => {
+      pendingExecution.resolve = resolve;
+      pendingExecution.reject = reject;
+    });
+
+    this.pendingExecutionsByCallback.set(callback, pendingExecution);
+
+    if (debounceDelay !== undefined) {
+      pendingExecution.cancel = scheduleTask(execute, debounceDelay);
+
+      return pendingExecution.promise;
+    }
+
+    if (throttle !== undefined) {
+      const lastExecution = this.lastExecutionByCallback.get(callback) ?? null;
+      const elapsed =
+        lastExecution === null ? Infinity : Date.now() - lastExecution;
+
+      pendingExecution.cancel = () => {};
+
+      // the leading execution happens immediately, the following ones wait for the end of the window
+      if (elapsed >= throttle) {
+        execute();
+      } else {
+        pendingExecution.cancel = scheduleTask(execute, throttle - elapsed);
+      }
+
+      return pendingExecution.promise;
+    }
+
+    pendingExecution.cancel = scheduleTask(execute, schedule);
+
+    return pendingExecution.promise;
+  };
+
+  /**
+   * Adds to the changes summary the changes of the properties produced by a callback
+   * @param changesSummary - the changes summary received by the callback
+   * @param previousValues - the values of the produced properties before the execution of the callback
+   */
+  private getDerivedChangesSummary = (
+    changesSummary: TChangesSummary<TComponent>,
+    previousValues: Map<keyof TComponent, unknown>
+  ): TChangesSummary<TComponent> => {
+    const component = this.component as TComponent;
+
+    const derivedChanges = Array.from(previousValues.entries()).reduce(
+      (accumulator, [property, previousValue]) => {
+        const currentValue = component[property];
+        const comparator = (this.comparatorsByProperty[property] ??
+          this.equality) as TEqualityComparator<unknown>;
+
+        if (comparator(previousValue, currentValue)) return accumulator;
+
+        return {
+          ...accumulator,
+          [property]: {
+            previousValue,
+            currentValue,
+            firstChange: false,
+            didChange: true,
+          },
+        };
+      },
+      {} as TChangesSummary<TComponent>
+    );
+
+    if (!Object.keys(derivedChanges).length) return changesSummary;
+
+    this.trackValues(derivedChanges);
+
+    return {
+      ...changesSummary,
+      ...derivedChanges,
+      ...getPathsChangesSummary(
+        derivedChanges,
+        this.watchedPaths,
+        this.comparatorsByProperty,
+        this.equality
+      ),
+    };
+  };
+
+  /**
+   * This method executes the callbacks which should be executed based on the changes detected in the component and the validators
+   * If there are not validators it executes all the callbacks linked to the changed attributes
+   * The callbacks are executed in dependency order, the changes of the properties produced by a callback are fed to the groups which depend on them
+   * If a callback which produces properties is async, the groups which depend on it wait until it settles
+   * The detectChanges is executed once all the callbacks of the batch settled
+   * Callbacks with scheduling options are executed in their own batch when their schedule is reached
+   * @returns a promise which resolves once the batch and the scheduled executions settled
+   */
+  private executeChangesCallbacks = (
+    changesSummary: TChangesSummary<TComponent>,
+    historyEntry: THistoryEntry<TComponent> = null,
+    options: TExecutionOptions = {}
+  ): Promise<void> => {
+    const executedCallbacks = new Set<TChangeCallback<TComponent>>();
+    const scheduledExecutions: Promise<void>[] = [];
+    const errors = this.createErrorsTracker();
+    const firedGroups = new Set<string>();
+
+    // the cascade evaluates the groups again after each callback, so each group is tracked only the first time it fires
+    const trackFiredGroup = (groupId: string) => {
+      if (firedGroups.has(groupId)) return;
+
+      firedGroups.add(groupId);
+      historyEntry?.firedGroups.push(groupId);
+
+      this.diagnostics?.trackGroup(groupId);
+      this.firedGroupsSubject.next(groupId);
+    };
+
+    this.recordSnapshot(changesSummary, options);
+
+    const combine = (...executions: (Promise<void> | void)[]) => {
+      const pendingExecutions = executions.filter(Boolean) as Promise<void>[];
+      if (!pendingExecutions.length) return;
+
+      return this.waitForCallbacks(pendingExecutions);
+    };
+
+    // returns a promise only if there are async callbacks in the rest of the batch
+    const executeNextCallback = (
+      currentSummary: TChangesSummary<TComponent>
+    ): Promise<void> | void => {
+      if (errors.isAborted()) return;
+
+      // we filter the groups to execute only the ones which have at least one attribute which changed
+      const callbacks = this.getCallbacksWhichShouldBeExecuted(
+        currentSummary,
+        options,
+        trackFiredGroup
+      );
+
+      const nextCallback = Array.from(callbacks.entries()).find(
+        ([callback]) => !executedCallbacks.has(callback)
+      );
+
+      if (!nextCallback) return;
+
+      const [callback, validators] = nextCallback;
+      executedCallbacks.add(callback);
+
+      if (this.schedulingByCallback.has(callback)) {
+        scheduledExecutions.push(
+          this.scheduleCallback(
+            callback,
+            validators,
+            currentSummary,
+            historyEntry
+          )
+        );
+
+        return executeNextCallback(currentSummary);
+      }
+
+      const shouldExecuteCallback = this.validateCallback(
+        callback,
+        validators,
+        currentSummary,
+        historyEntry,
+        errors
+      );
+
+      if (!shouldExecuteCallback) return executeNextCallback(currentSummary);
+
+      const producedProperties =
+        this.producedPropertiesByCallback.get(callback);
+
+      historyEntry?.executedCallbacks.push(callback);
+
+      if (!producedProperties) {
+        const result = this.runCallback(callback, currentSummary, errors);
+
+        return combine(result, executeNextCallback(currentSummary));
+      }
+
+      const component = this.component as TComponent;
+
+      const previousValues = new Map(
+        Array.from(producedProperties).map((property) => [
+          property,
+          component[property] as unknown,
+        ])
+      );
+
+      const executeDependents = () =>
+        executeNextCallback(
+          this.getDerivedChangesSummary(currentSummary, previousValues)
+        );
+
+      const result = this.runCallback(callback, currentSummary, errors);
+
+      if (!result) return executeDependents();
+
+      return result.then(executeDependents);
+    };
+
+    const detectChanges = () => {
+      // async callbacks are aborted when the manager is destroyed, so there is nothing to update
+      if (this.isDestroyed) return;
+
+      this.requestDetection(errors);
+    };
+
+    const pendingExecution = executeNextCallback(changesSummary);
+
+    if (!pendingExecution) detectChanges();
+
+    // the errors of the callbacks are reported to the tracker, so the batch always settles successfully
+    const execution = pendingExecution
+      ? pendingExecution.then(detectChanges)
+      : Promise.resolve();
+
+    // by the time the batch settles all the scheduled executions were already requested
+    return execution
+      .then(() => this.waitForCallbacks(scheduledExecutions))
+      .then(errors.settle, (error) => {
+        // the errors of the batch go before the ones of the scheduled executions
+        errors.settle();
+
+        throw error;
+      });
+  };
+
+  /**
+   * Logs the error of an execution which nobody awaits, so it doesn't become an unhandled rejection
+   * The errors of the callbacks were already passed to the onError handler, so they are only logged if there is none
+   */
+  private logUnhandledError = (error: unknown) => {
+    if (this.onError) return;
+
+    console.error(
+      'ChangesManager: an execution of the callbacks failed',
+      error
+    );
+  };
+
+  /**
+   * Creates the tracker of the errors of an execution of the callbacks
+   * Every error is passed to the onError handler, then the error policy decides if the rest of the callbacks are executed and if the execution fails
+   * The errors passed to the onError handler are handled, so the execution only fails without it
+   */
+  private createErrorsTracker = (): TErrorsTracker<TComponent> => {
+    const reportedErrors: unknown[] = [];
+
+    const report = (error: unknown, context: TErrorContext<TComponent>) => {
+      reportedErrors.push(error);
+
+      if (this.onError) {
+        this.onError(error, context);
+
+        return;
+      }
+
+      // with the continue policy the error is not rethrown, so it's logged to avoid losing it
+      if (this.errorPolicy === 'continue') {
+        const group = context.groupId
+          ? ` of the group [${context.groupId}]`
+          : '';
+
+        console.error(
+          `ChangesManager: the ${context.phase}${group} failed`,
+          error
+        );
+      }
+    };
+
+    const isAborted = () =>
+      this.errorPolicy === 'abort' && reportedErrors.length > 0;
+
+    const settle = () => {
+      if (!reportedErrors.length || this.errorPolicy === 'continue') return;
+      if (this.onError) return;
+
+      throw reportedErrors[0];
+    };
+
+    return { report, isAborted, settle };
+  };
+
+  /**
+   * Returns the id of the first group which contains the callback, optionally with the validator
+   */
+  private getGroupIdOfCallback = (
+    callback: TChangeCallback<TComponent>,
+    validator: TChangeCallbackValidator<TComponent> = null
+  ): string => {
+    const [groupId] = Array.from(this.callbacksByGroup.entries()).find(
+      ([, groupCallbacks]) =>
+        groupCallbacks.some(
+          (callbackConfig) =>
+            callbackConfig.callback === callback &&
+            (!validator || callbackConfig.validator === validator)
+        )
+    ) ?? [null];
+
+    return groupId;
+  };
+
+  /**
+   * Returns true if the changes summary contains the first binding of a property watched by a callback which runs on first change
+   */
+  private hasFirstChangeCallbacks = (
+    changesSummary: TChangesSummary<TComponent>
+  ): boolean => {
+    const firstChanges = Object.keys(changesSummary).filter(
+      (property) => changesSummary[property].firstChange
+    ) as (keyof TComponent)[];
+
+    if (!firstChanges.length) return false;
+
+    return Array.from(this.callbacksByGroup).some(
+      ([groupId, groupCallbacks]) =>
+        groupCallbacks.some(({ runOnFirstChange }) => runOnFirstChange) &&
+        firstChanges.some((property) =>
+          this.propertiesByGroup.get(groupId).has(property)
+        )
+    );
+  };
+
+  /**
+   * Adds the changes summary to the history, the oldest entry is dropped once the history is full
+   * @returns the history entry, null if the history is disabled
+   */
+  private recordHistoryEntry = (
+    changesSummary: TChangesSummary<TComponent>
+  ): THistoryEntry<TComponent> => {
+    if (!this.historySize) return null;
+
+    const historyEntry: THistoryEntry<TComponent> = {
+      timestamp: Date.now(),
+      changesSummary,
+      firedGroups: [],
+      executedCallbacks: [],
+      rejectedValidators: [],
+    };
+
+    this.history.push(historyEntry);
+
+    if (this.history.length > this.historySize) this.history.shift();
+
+    return historyEntry;
+  };
+
+  /**
+   * Returns the latest changes managed from the oldest to the newest, the history is only recorded if the historySize parameter is provided
+   * @example
+   * const changesManager = new ChangesManager({ ..., historySize: 20 });
+   *
+   * changesManager.getHistory().forEach(({ timestamp, changesSummary, executedCallbacks }) => {
+   *   console.log(new Date(timestamp), changesSummary, executedCallbacks.map(({ name }) => name));
+   * });
+   */
+  public getHistory = (): THistoryEntry<TComponent>[] => {
+    return [...this.history];
+  };
+
+  /**
+   * Executes again the callbacks pipeline with the changes summary of an entry of the history
+   * The inputs of the component are not modified and the replay is not added to the history
+   * @param index - the index of the entry in the getHistory array
+   * @returns a promise with the recorded changes summary which resolves once all the callbacks settled, rejected if there is no entry at the index
+   */
+  public replay = (index: number): Promise<TChangesSummary<TComponent>> => {
+    if (this.warnIfDestroyed('replay')) return Promise.resolve(null);
+
+    const historyEntry = this.history[index];
+
+    if (!historyEntry) {
+      return Promise.reject(
+        new Error(
+          `ChangesManager: there is no history entry at the index ${index}`
+        )
+      );
+    }
+
+    const { changesSummary } = historyEntry;
+
+    return this.executeChangesCallbacks(changesSummary).then(
+      () => changesSummary
+    );
+  };
+
+  /**
+   * Returns the fields touched by the callbacks and by the callbacks of the groups which depend on the properties they produce
+   */
+  private getTouchedProperties = (
+    callbacks: TChangeCallback<TComponent>[]
+  ): Set<keyof TComponent> => {
+    const touchedProperties = new Set<keyof TComponent>();
+    const visitedCallbacks = new Set(callbacks);
+    const pendingCallbacks = [...callbacks];
+
+    while (pendingCallbacks.length) {
+      const callback = pendingCallbacks.shift();
+
+      this.touchedPropertiesByCallback
+        .get(callback)
+        ?.forEach((property) => touchedProperties.add(property));
+
+      // the groups which depend on the produced properties fire in the cascade of the same execution
+      this.producedPropertiesByCallback.get(callback)?.forEach((property) =>
+        this.propertiesByGroup.forEach((properties, groupId) => {
+          if (!properties.has(property)) return;
+
+          this.callbacksByGroup.get(groupId).forEach(({ callback }) => {
+            if (visitedCallbacks.has(callback)) return;
+
+            visitedCallbacks.add(callback);
+            pendingCallbacks.push(callback);
+          });
+        })
+      );
+    }
+
+    return touchedProperties;
+  };
+
+  /**
+   * Takes a snapshot of the fields touched by the groups which are going to fire, the oldest snapshot is dropped once the snapshots are full
+   * A new snapshot discards the undone executions, so they can't be redone anymore
+   */
+  private recordSnapshot = (
+    changesSummary: TChangesSummary<TComponent>,
+    options: TExecutionOptions
+  ) => {
+    if (!this.snapshotsSize) return;
+
+    // dry run, the groups are tracked by the execution itself
+    const callbacks = this.getCallbacksWhichShouldBeExecuted(
+      changesSummary,
+      options
+    );
+
+    const touchedProperties = this.getTouchedProperties(
+      Array.from(callbacks.keys())
+    );
+
+    if (!touchedProperties.size) return;
+
+    this.snapshots.push(this.takeSnapshot(touchedProperties));
+    this.redoSnapshots = [];
+
+    if (this.snapshots.length > this.snapshotsSize) this.snapshots.shift();
+  };
+
+  /**
+   * Returns the snapshot with the current values of the fields
+   */
+  private takeSnapshot = (
+    properties: Iterable<keyof TComponent>
+  ): TSnapshot<TComponent> => {
+    const component = this.component as TComponent;
+
+    return {
+      timestamp: Date.now(),
+      values: new Map(
+        Array.from(properties).map((property) => [
+          property,
+          component[property] as unknown,
+        ])
+      ),
+    };
+  };
+
+  /**
+   * Writes the values of the snapshot back to the component and updates the view
+   * The latest values of the tracked properties are also restored, so the next executions compare against the restored values
+   * @returns the snapshot of the values which were replaced
+   */
+  private restoreSnapshot = (
+    snapshot: TSnapshot<TComponent>
+  ): TSnapshot<TComponent> => {
+    const component = this.component as TComponent;
+    const replacedSnapshot = this.takeSnapshot(snapshot.values.keys());
+
+    snapshot.values.forEach((value, property) => {
+      component[property] = value as TComponent[keyof TComponent];
+
+      if (!this.latestValues.has(property)) return;
+
+      this.latestValues.set(property, value);
+      this.onValueTracked?.(property, value);
+    });
+
+    this.detectChanges();
+
+    return replacedSnapshot;
+  };
+
+  /**
+   * Restores the fields touched by the latest execution of the callbacks, the execution can be redone
+   * The snapshots are only recorded if the snapshotsSize parameter is provided
+   * @returns true if an execution was undone
+   * @example
+   * const changesManager = new ChangesManager({ ..., snapshotsSize: 20 });
+   *
+   * undoButton.onclick = () => changesManager.undo();
+   * redoButton.onclick = () => changesManager.redo();
+   */
+  public undo = (): boolean => {
+    if (this.warnIfDestroyed('undo')) return false;
+
+    const snapshot = this.snapshots.pop();
+    if (!snapshot) return false;
+
+    this.redoSnapshots.push(this.restoreSnapshot(snapshot));
+
+    return true;
+  };
+
+  /**
+   * Restores the fields replaced by the latest undo
+   * @returns true if an execution was redone
+   */
+  public redo = (): boolean => {
+    if (this.warnIfDestroyed('redo')) return false;
+
+    const snapshot = this.redoSnapshots.pop();
+    if (!snapshot) return false;
+
+    this.snapshots.push(this.restoreSnapshot(snapshot));
+
+    return true;
+  };
+
+  /**
+   * Restores the fields touched by the latest execution of the callbacks and discards it, e.g. when one of its callbacks failed
+   * Unlike the undo, the discarded execution can't be redone
+   * @returns true if an execution was rolled back
+   * @example
+   * new ChangesManager({
+   *   ...,
+   *   snapshotsSize: 1,
+   *   errorPolicy: 'abort',
+   *   onError: () => this.changesManager.rollback(),
+   * });
+   */
+  public rollback = (): boolean => {
+    if (this.warnIfDestroyed('rollback')) return false;
+
+    const snapshot = this.snapshots.pop();
+    if (!snapshot) return false;
+
+    this.restoreSnapshot(snapshot);
+    this.redoSnapshots = [];
+
+    return true;
+  };
+
+  /**
+   * Returns true if there is an execution which could be undone
+   */
+  public canUndo = () => this.snapshots.length > 0;
+
+  /**
+   * Returns true if there is an undone execution which could be redone
+   */
+  public canRedo = () => this.redoSnapshots.length > 0;
+
+  /**
+   * Transforms the values of the changes and writes them back to the component, nothing is modified once the manager is destroyed
+   * @returns the transformed changes, the received values are kept as the rawValue of the transformed properties
+   */
+  private transformChanges = (
+    simpleChanges: TSimpleChanges
+  ): TSimpleChanges => {
+    if (this.isDestroyed) return simpleChanges;
+
+    const transformedChanges = transformSimpleChanges(
+      simpleChanges,
+      this.transforms
+    );
+
+    this.writeTransformedValues(transformedChanges);
+
+    return transformedChanges;
+  };
+
+  /**
+   * Writes the transformed values back to the component, so the component and the callbacks see the same value
+   */
+  private writeTransformedValues = (transformedChanges: TSimpleChanges) => {
+    const component = this.component as TComponent;
+
+    Object.keys(this.transforms).forEach((property) => {
+      const change = transformedChanges[property];
+      if (!change) return;
+
+      component[property] = change.currentValue;
+    });
+  };
+
+  /**
+   * This method should be called every time the component inputs change on the ngOnChanges lifecycle method
+   * @param simpleChanges the simple changes object, already transformed by the manageChanges
+   * @returns a promise with the changes summary which resolves once all the callbacks settled
+   * the changes summary is an object where the keys are the input attributes and the values are the simple changes
+   * the simple changes are extended with a didChange property which indicates if the value changed or not
+   */
+  private _manageChanges = (
+    simpleChanges: TSimpleChanges
+  ): Promise<TChangesSummary<TComponent>> => {
+    if (this.warnIfDestroyed('manageChanges')) return Promise.resolve(null);
+
+    this.diagnostics?.trackChanges(simpleChanges);
+
+    const changesSummary = getChangesSummary<TComponent>(
+      simpleChanges,
+      this.comparatorsByProperty,
+      this.watchedPaths,
+      this.equality
+    );
+
+    // values are tracked even if the strict mode skips the callbacks, so the first values are also reflected in the signals
+    this.trackValues(changesSummary);
+
+    return this.processChangesSummary(changesSummary);
+  };
+
+  /**
+   * Executes the callbacks pipeline with the changes summary, then notifies the onChanges and the changes$ stream
+   * In strict mode the pipeline is skipped if there are not changes to process
+   * @returns a promise with the changes summary which resolves once all the callbacks settled
+   */
+  private processChangesSummary = (
+    changesSummary: TChangesSummary<TComponent>,
+    options: TExecutionOptions = {}
+  ): Promise<TChangesSummary<TComponent>> => {
+    const properties = Object.keys(changesSummary);
+
+    const shouldProcessChanges =
+      options.force ||
+      properties.some((key) => {
+        const simpleChange = changesSummary[key];
+
+        return simpleChange.didChange;
+      }) ||
+      this.hasFirstChangeCallbacks(changesSummary);
+
+    // if no changes were detected we don't need to execute the callbacks
+    if (this.strict && !shouldProcessChanges) {
+      return Promise.resolve(changesSummary);
+    }
+
+    const execution = this.executeChangesCallbacks(
+      changesSummary,
+      this.recordHistoryEntry(changesSummary),
+      options
+    );
+
+    this.onChanges?.(changesSummary);
+
+    this.changesSubject.next(changesSummary);
+
+    return execution.then(() => changesSummary);
+  };
+
+  /**
+   * Returns the ids of the groups selected by the options of the manual execution
+   * @throws if one of the groups doesn't exist
+   */
+  private getSelectedGroupIds = ({
+    props,
+    groups,
+  }: TExecuteCallbacksOptions<TComponent>): Set<string> => {
+    const groupIds =
+      groups?.map((properties) => {
+        const groupId = getGroupId(properties);
+
+        if (!this.propertiesByGroup.has(groupId)) {
+          throw new Error(
+            `ChangesManager: there is no callback group with the properties [${groupId}]`
+          );
+        }
+
+        return groupId;
+      }) ?? Array.from(this.propertiesByGroup.keys());
+
+    if (!props) return new Set(groupIds);
+
+    return new Set(
+      groupIds.filter((groupId) =>
+        props.some((property) =>
+          this.propertiesByGroup.get(groupId).has(property)
+        )
+      )
+    );
+  };
+
+  /**
+   * Manually executes the callbacks of the component, sync callbacks are executed synchronously
+   * The changes summary compares the current values of the component with the last values tracked by the manager,
+   * properties which were never tracked have undefined as previous value
+   * The execution goes through the same pipeline of the manageChanges: validators, dependencies, scheduling and detectChanges
+   * @param options - allows to select the groups to execute, execute them even if nothing changed and skip their validators
+   * @returns a promise with the changes summary which resolves once all the callbacks settled, rejected if one of the selected groups doesn't exist
+   * @example
+   * this.name = 'johnny';
+   *
+   * // executes the groups which contain the name property
+   * this.changesManager.executeCallbacks({ props: ['name'] });
+   *
+   * // executes the group even if its properties didn't change
+   * this.changesManager.executeCallbacks({ groups: [['name', 'surname']], force: true });
+   */
+  public executeCallbacks = (
+    options: TExecuteCallbacksOptions<TComponent> = {}
+  ): Promise<TChangesSummary<TComponent>> => {
+    if (this.warnIfDestroyed('executeCallbacks')) return Promise.resolve(null);
+
+    const { force = false, avoidValidations = false } = options;
+
+    let groupIds: Set<string>;
+
+    try {
+      groupIds = this.getSelectedGroupIds(options);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const component = this.component as TComponent;
+
+    const properties = new Set<keyof TComponent>();
+
+    // the changes of the nested paths are computed from their root properties
+    groupIds.forEach((groupId) =>
+      this.propertiesByGroup
+        .get(groupId)
+        .forEach((property) =>
+          properties.add(String(property).split('.')[0] as keyof TComponent)
+        )
+    );
+
+    const simpleChanges = Array.from(properties).reduce(
+      (accumulator, property) => ({
+        ...accumulator,
+        [property]: createSimpleChange(
+          this.latestValues.get(property),
+          component[property],
+          false
+        ),
+      }),
+      {} as TSimpleChanges
+    );
+
+    const changesSummary = getChangesSummary<TComponent>(
+      simpleChanges,
+      this.comparatorsByProperty,
+      this.watchedPaths,
+      this.equality
+    );
+
+    this.trackValues(changesSummary);
+
+    return this.processChangesSummary(changesSummary, {
+      groupIds,
+      force,
+      avoidValidations,
+    });
+  };
+}
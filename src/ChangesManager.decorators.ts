@@ -0,0 +1,276 @@
+import { ChangeDetectorRef, DestroyRef, SimpleChanges } from '@angular/core';
+import { ChangesManager } from './ChangesManager';
+import {
+  injectChangesManagerDefaults,
+  injectDestroyRef,
+} from './ChangesManager.providers';
+import {
+  TCallbacksConfig,
+  TCallbacksConfigParameter,
+  TChangeCallback,
+  TChangesManagerDefaults,
+  TGroupProperty,
+  TInputChangeMetadata,
+  TManagedChangesOptions,
+  TOnInputChangeOptions,
+} from './ChangesManager.types';
+
+/**
+ * Metadata registered by the OnInputChange decorator per class prototype
+ */
+const inputChangesMetadata = new WeakMap<
+  object,
+  TInputChangeMetadata<object>[]
+>();
+
+/**
+ * Changes managers created by the ManagedChanges decorator per component instance
+ */
+const changesManagers = new WeakMap<object, ChangesManager<any>>();
+
+/**
+ * Defaults and DestroyRef of the injection context in which each component instance was constructed
+ * The managers are created lazily outside of the injection context, e.g. in the ngOnChanges, so they are captured by the constructor
+ */
+const injectedParameters = new WeakMap<
+  object,
+  TChangesManagerDefaults & { destroyRef: DestroyRef }
+>();
+
+/**
+ * Options of the ManagedChanges decorator per class prototype
+ */
+const managedChangesOptions = new WeakMap<
+  object,
+  TManagedChangesOptions<object>
+>();
+
+/**
+ * Returns the metadata of the OnInputChange decorators of the prototype chain, the metadata of the base classes goes first
+ */
+const getInputChangesMetadata = (
+  prototype: object
+): TInputChangeMetadata<object>[] => {
+  if (!prototype || prototype === Object.prototype) return [];
+
+  return [
+    ...getInputChangesMetadata(Object.getPrototypeOf(prototype)),
+    ...(inputChangesMetadata.get(prototype) ?? []),
+  ];
+};
+
+/**
+ * Returns the options of the closest class of the prototype chain decorated with ManagedChanges
+ */
+const getManagedChangesOptions = (
+  prototype: object
+): TManagedChangesOptions<object> => {
+  if (!prototype || prototype === Object.prototype) return null;
+
+  return (
+    managedChangesOptions.get(prototype) ??
+    getManagedChangesOptions(Object.getPrototypeOf(prototype))
+  );
+};
+
+/**
+ * Builds the callbacks configuration of the component from the metadata of the OnInputChange decorators
+ * A method decorated more than once is registered as the same callback, so the groups keep the deduplication of the callbacks
+ */
+const getCallbacksConfigFromMetadata = <TComponent extends object>(
+  component: TComponent
+): TCallbacksConfig<TComponent> => {
+  const metadata = getInputChangesMetadata(
+    Object.getPrototypeOf(component)
+  ) as TInputChangeMetadata<TComponent>[];
+
+  return metadata.map(({ properties, methodName, ...options }) => [
+    [...properties],
+    {
+      ...options,
+      callback: component[methodName] as TChangeCallback<TComponent>,
+      validator: options.validator ?? null,
+    },
+  ]);
+};
+
+/**
+ * Returns the changes manager of a component decorated with ManagedChanges, the manager is created the first time it's requested
+ * @param component - the component instance
+ * @example
+ * constructor(private changeDetectorRef: ChangeDetectorRef) {
+ *   this.userId = getChangesManager(this).signal('userId');
+ * }
+ */
+export const getChangesManager = <TComponent extends object>(
+  component: TComponent
+): ChangesManager<TComponent> => {
+  if (changesManagers.has(component)) {
+    return changesManagers.get(component) as ChangesManager<TComponent>;
+  }
+
+  const options = getManagedChangesOptions(
+    Object.getPrototypeOf(component)
+  ) as TManagedChangesOptions<TComponent>;
+
+  if (!options) {
+    throw new Error(
+      `${component.constructor.name} is not decorated with @ManagedChanges()`
+    );
+  }
+
+  const { changeDetectorRef: changeDetectorRefKey, ...parameters } = options;
+  const changeDetectorRef = component[
+    changeDetectorRefKey
+  ] as ChangeDetectorRef;
+
+  if (!changeDetectorRef) {
+    throw new Error(
+      `${component.constructor.name}.${changeDetectorRefKey} should contain the ChangeDetectorRef of the component`
+    );
+  }
+
+  const changesManager = new ChangesManager<TComponent>({
+    ...injectedParameters.get(component),
+    ...parameters,
+    component,
+    changeDetectorRef,
+    callbacks: getCallbacksConfigFromMetadata(
+      component
+    ) as TCallbacksConfigParameter<TComponent>,
+  });
+
+  changesManagers.set(component, changesManager);
+
+  return changesManager;
+};
+
+/**
+ * Method decorator which executes the method when one of the properties of the group changes
+ * The last parameter could be the options of the group, only the input properties of the component are allowed
+ * The class should be decorated with ManagedChanges
+ * @example
+ * @OnInputChange('name', 'surname', { validator: (changes) => changes.name?.currentValue != null, debounce: 300 })
+ * computeFullName() {
+ *   this.fullName = `${this.name} ${this.surname}`;
+ * }
+ */
+export const OnInputChange = <TComponent extends object = any>(
+  ...parameters:
+    | [...TGroupProperty<TComponent>[], TOnInputChangeOptions<TComponent>]
+    | TGroupProperty<TComponent>[]
+) => {
+  const lastParameter = parameters[parameters.length - 1];
+  const hasOptions =
+    typeof lastParameter === 'object' && lastParameter !== null;
+
+  const properties = (
+    hasOptions ? parameters.slice(0, -1) : parameters
+  ) as TGroupProperty<TComponent>[];
+
+  const options = (
+    hasOptions ? lastParameter : {}
+  ) as TOnInputChangeOptions<TComponent>;
+
+  return (
+    target: object,
+    methodName: string | symbol,
+    descriptor?: PropertyDescriptor
+  ) => {
+    const metadata = inputChangesMetadata.get(target) ?? [];
+
+    inputChangesMetadata.set(target, [
+      ...metadata,
+      {
+        ...options,
+        properties,
+        methodName,
+      } as TInputChangeMetadata<object>,
+    ]);
+  };
+};
+
+/**
+ * Class decorator which creates the changes manager of the component from the OnInputChange decorators
+ * The ngOnChanges of the class is patched to manage the changes before executing the original one, and the ngOnDestroy to destroy the manager
+ * The class should declare the ngOnChanges method, even if it's empty: the Angular compiler only calls it if the class declares it
+ * The constructor of the class is wrapped to capture the defaults provided with provideChangesManagerDefaults and the DestroyRef, the decorator options have priority over them
+ * The errors of the callbacks which are not handled by the onError option are logged, the patched ngOnChanges doesn't return the execution
+ * @param options - same parameters of the changes manager, the changeDetectorRef option is the name of the property which holds the ChangeDetectorRef
+ * @example
+ * @ManagedChanges()
+ * @Component({ ... })
+ * export class MyComponent {
+ *   @Input() name: string;
+ *   @Input() surname: string;
+ *
+ *   constructor(private changeDetectorRef: ChangeDetectorRef) {}
+ *
+ *   @OnInputChange('name', 'surname')
+ *   computeFullName() {}
+ *
+ *   // patched by the decorator
+ *   ngOnChanges() {}
+ * }
+ * @throws if the class doesn't declare the ngOnChanges method
+ */
+export const ManagedChanges = <TComponent extends object = any>(
+  options: TManagedChangesOptions<TComponent> = {}
+) => {
+  return <TClass extends abstract new (...args: any[]) => object>(
+    target: TClass
+  ) => {
+    const { prototype } = target;
+    const { ngOnChanges, ngOnDestroy } = prototype;
+
+    if (typeof ngOnChanges !== 'function') {
+      throw new Error(
+        `${target.name} should declare the ngOnChanges method to be decorated with @ManagedChanges(), the Angular compiler only calls the ngOnChanges declared by the class`
+      );
+    }
+
+    managedChangesOptions.set(prototype, {
+      changeDetectorRef: 'changeDetectorRef',
+      ...options,
+    } as TManagedChangesOptions<object>);
+
+    prototype.ngOnChanges = function (simpleChanges: SimpleChanges) {
+      // nobody awaits the lifecycle hook, so the errors are logged instead of becoming unhandled rejections
+      getChangesManager(this)
+        .manageChanges(simpleChanges)
+        .catch((error) =>
+          console.error(
+            `ChangesManager: a callback of ${this.constructor.name} failed`,
+            error
+          )
+        );
+
+      ngOnChanges.call(this, simpleChanges);
+    };
+
+    prototype.ngOnDestroy = function () {
+      changesManagers.get(this)?.destroy();
+      changesManagers.delete(this);
+
+      ngOnDestroy?.call(this);
+    };
+
+    // the component is constructed in its injection context, unlike the ngOnChanges which creates the manager
+    const ManagedClass = class extends (target as unknown as new (
+      ...args: any[]
+    ) => object) {
+      constructor(...args: any[]) {
+        super(...args);
+
+        injectedParameters.set(this, {
+          ...injectChangesManagerDefaults(),
+          destroyRef: injectDestroyRef(),
+        });
+      }
+    };
+
+    Object.defineProperty(ManagedClass, 'name', { value: target.name });
+
+    return ManagedClass as unknown as TClass;
+  };
+};
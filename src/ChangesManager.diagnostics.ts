@@ -0,0 +1,313 @@
+import {
+  TCallbackStats,
+  TChangeCallback,
+  TChangesManagerStats,
+  TPropertiesByGroup,
+  TSimpleChanges,
+} from './ChangesManager.types';
+
+/**
+ * Flag defined by Angular, production builds replace it with false
+ */
+declare const ngDevMode: unknown;
+
+/**
+ * Returns true if the diagnostics should be collected by default, only in Angular dev mode
+ * The flag is undefined outside of Angular, e.g. in a web component or a service, so they are disabled there
+ */
+export const isDiagnosticsEnabled = () =>
+  typeof ngDevMode !== 'undefined' && !!ngDevMode;
+
+/**
+ * Returns the current time in milliseconds, with sub millisecond precision when available
+ */
+const now = () =>
+  typeof performance !== 'undefined' ? performance.now() : Date.now();
+
+/**
+ * Returns the names of the properties of the inputs of an Angular component, null if the object is not a compiled component
+ */
+const getComponentInputs = (component: object): Set<string> => {
+  const { ɵcmp, ɵdir } = component.constructor as {
+    ɵcmp?: { inputs?: Record<string, string | unknown[]> };
+    ɵdir?: { inputs?: Record<string, string | unknown[]> };
+  };
+
+  const definition = ɵcmp ?? ɵdir;
+
+  if (!definition?.inputs) return null;
+
+  // the shape of the definition changed between Angular versions, so the public and the private names are considered
+  return Object.keys(definition.inputs).reduce((accumulator, key) => {
+    const value = definition.inputs[key];
+
+    accumulator.add(key);
+    accumulator.add(String(Array.isArray(value) ? value[0] : value));
+
+    return accumulator;
+  }, new Set<string>());
+};
+
+/**
+ * Returns the names of the properties of the object including the ones of its prototype chain
+ */
+const getPropertyNames = (component: object): Set<string> => {
+  const propertyNames = new Set<string>();
+  let prototype = component;
+
+  while (prototype && prototype !== Object.prototype) {
+    Object.getOwnPropertyNames(prototype).forEach((name) =>
+      propertyNames.add(name)
+    );
+
+    prototype = Object.getPrototypeOf(prototype);
+  }
+
+  return propertyNames;
+};
+
+/**
+ * Levenshtein distance between two strings
+ */
+const getEditDistance = (source: string, target: string): number => {
+  let previousRow = Array.from({ length: target.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= source.length; i++) {
+    const currentRow = [i];
+
+    for (let j = 1; j <= target.length; j++) {
+      const substitutionCost = source[i - 1] === target[j - 1] ? 0 : 1;
+
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + substitutionCost
+      );
+    }
+
+    previousRow = currentRow;
+  }
+
+  return previousRow[target.length];
+};
+
+/**
+ * Returns the closest name to the property, null if none of the names is close enough
+ */
+const getSuggestion = (property: string, names: Set<string>): string => {
+  const maxDistance = Math.max(1, Math.floor(property.length / 3));
+
+  const [suggestion] = Array.from(names)
+    .map((name) => ({
+      name,
+      distance: getEditDistance(property.toLowerCase(), name.toLowerCase()),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance);
+
+  return suggestion?.name ?? null;
+};
+
+/**
+ * Dev mode diagnostics of a changes manager
+ * Warns about the properties of the configuration which don't exist in the component or are not inputs,
+ * about the groups which never fired, and collects the execution stats of the callbacks
+ */
+export class ChangesManagerDiagnostics<TComponent extends object> {
+  private component: object;
+
+  private propertiesByGroup: TPropertiesByGroup<TComponent> = new Map();
+
+  private producedProperties = new Set<keyof TComponent>();
+
+  /**
+   * The properties are validated with the first changes, once the fields of the component are initialized
+   */
+  private arePropertiesValidated = false;
+
+  private firedGroups = new Set<string>();
+
+  private manageChangesCount = 0;
+
+  private detectChangesCount = 0;
+
+  private statsByCallback = new Map<
+    TChangeCallback<TComponent>,
+    TCallbackStats
+  >();
+
+  constructor(component: object) {
+    this.component = component;
+  }
+
+  /**
+   * Stores the groups of the current callbacks configuration, the properties are validated again with the next changes
+   */
+  public trackCallbacksConfig = (
+    propertiesByGroup: TPropertiesByGroup<TComponent>,
+    producedPropertiesByCallback: Map<
+      TChangeCallback<TComponent>,
+      Set<keyof TComponent>
+    >
+  ) => {
+    this.propertiesByGroup = propertiesByGroup;
+
+    this.producedProperties = new Set();
+
+    producedPropertiesByCallback.forEach((properties) =>
+      properties.forEach((property) => this.producedProperties.add(property))
+    );
+
+    this.arePropertiesValidated = false;
+  };
+
+  /**
+   * Counts the execution of the manageChanges, the first one also validates the properties of the configuration
+   */
+  public trackChanges = (simpleChanges: TSimpleChanges) => {
+    this.manageChangesCount++;
+
+    if (this.arePropertiesValidated) return;
+    this.arePropertiesValidated = true;
+
+    this.validateProperties(simpleChanges);
+  };
+
+  public trackGroup = (groupId: string) => {
+    this.firedGroups.add(groupId);
+  };
+
+  public trackDetectChanges = () => {
+    this.detectChangesCount++;
+  };
+
+  /**
+   * Starts measuring an execution of the callback
+   * @returns a function which stops the measure and stores it in the stats of the callback
+   */
+  public startCallbackTimer = (callback: TChangeCallback<TComponent>) => {
+    const start = now();
+
+    return () => {
+      const time = now() - start;
+
+      const stats = this.statsByCallback.get(callback) ?? {
+        name: callback.name || 'anonymous',
+        executions: 0,
+        totalTime: 0,
+        averageTime: 0,
+        maxTime: 0,
+      };
+
+      const executions = stats.executions + 1;
+      const totalTime = stats.totalTime + time;
+
+      this.statsByCallback.set(callback, {
+        ...stats,
+        executions,
+        totalTime,
+        averageTime: totalTime / executions,
+        maxTime: Math.max(stats.maxTime, time),
+      });
+    };
+  };
+
+  public getStats = (): TChangesManagerStats<TComponent> => {
+    return {
+      manageChanges: this.manageChangesCount,
+      detectChanges: this.detectChangesCount,
+      callbacks: new Map(this.statsByCallback),
+      unusedGroups: this.getUnusedGroups(),
+    };
+  };
+
+  /**
+   * Warns about the groups which never fired, groups of managers which never received changes are not reported
+   */
+  public reportUnusedGroups = () => {
+    if (!this.manageChangesCount) return;
+
+    const unusedGroups = this.getUnusedGroups();
+    if (!unusedGroups.length) return;
+
+    console.warn(
+      `ChangesManager: the callback groups ${unusedGroups
+        .map((groupId) => `[${groupId}]`)
+        .join(', ')} of ${
+        this.component.constructor.name
+      } never fired, check if their properties are inputs of the component`
+    );
+  };
+
+  private getUnusedGroups = () => {
+    return Array.from(this.propertiesByGroup.keys()).filter(
+      (groupId) => !this.firedGroups.has(groupId)
+    );
+  };
+
+  /**
+   * Warns about the properties of the configuration which don't exist in the component
+   * If the component is a compiled Angular component, it also warns about the properties which are not inputs
+   */
+  private validateProperties = (simpleChanges: TSimpleChanges) => {
+    const componentName = this.component.constructor.name;
+    const inputs = getComponentInputs(this.component);
+
+    const knownProperties = new Set([
+      ...Array.from(getPropertyNames(this.component)),
+      ...Object.keys(simpleChanges),
+      ...Array.from(inputs ?? []),
+      ...Array.from(this.producedProperties).map(String),
+    ]);
+
+    const properties = new Set<string>();
+
+    this.propertiesByGroup.forEach((groupProperties) =>
+      groupProperties.forEach((property) =>
+        properties.add(String(property).split('.')[0])
+      )
+    );
+
+    properties.forEach((property) => {
+      const isKnownProperty =
+        knownProperties.has(property) || property in this.component;
+
+      if (!isKnownProperty) {
+        const suggestion = getSuggestion(property, knownProperties);
+
+        console.warn(
+          `ChangesManager: the property "${property}" of the callbacks configuration doesn't exist in ${componentName}${
+            suggestion ? `, did you mean "${suggestion}"?` : ''
+          }`
+        );
+
+        return;
+      }
+
+      const isInput =
+        !inputs ||
+        inputs.has(property) ||
+        this.producedProperties.has(property as keyof TComponent);
+
+      if (isInput) return;
+
+      console.warn(
+        `ChangesManager: the property "${property}" of the callbacks configuration is not an input of ${componentName}, its group only fires if its changes are managed manually`
+      );
+    });
+  };
+}
+
+/**
+ * Creates the diagnostics of a changes manager, null if they are disabled
+ * The ngDevMode check is inlined, so the production builds which replace the flag with false remove the diagnostics as dead code
+ * @param component - the object whose properties are watched
+ * @param enabled - if false the diagnostics are not created, even in dev mode
+ */
+export const createDiagnostics = <TComponent extends object>(
+  component: object,
+  enabled: boolean
+): ChangesManagerDiagnostics<TComponent> =>
+  (typeof ngDevMode === 'undefined' || ngDevMode) && enabled
+    ? new ChangesManagerDiagnostics<TComponent>(component)
+    : null;
@@ -0,0 +1,36 @@
+import {
+  TCallbackConfig,
+  TCallbacksConfigEntry,
+  TChangeCallback,
+  TGroupProperty,
+} from './ChangesManager.types';
+
+/**
+ * Creates the factory of the entries of the array form of the callbacks configuration of a component
+ * The callbacks and the validators of each entry receive the changes summary narrowed to the properties of its group
+ * The component type can't be inferred from the configuration, so the factory is created once per component type
+ * @template TComponent - the component type
+ * @example
+ * const group = groupsOf<MyComponent>();
+ *
+ * new ChangesManager({
+ *   component: this,
+ *   changeDetectorRef,
+ *   callbacks: [
+ *     group(['name', 'surname'], ({ name, surname }) => {}),
+ *     group(['userId'], {
+ *       callback: ({ userId }) => this.loadUser(userId.currentValue),
+ *       validator: ({ userId }) => userId?.currentValue > 0,
+ *     }),
+ *   ],
+ * });
+ */
+export const groupsOf =
+  <TComponent extends object>() =>
+  <TProperty extends TGroupProperty<TComponent>>(
+    properties: TProperty[],
+    callbackConfig:
+      | TCallbackConfig<TComponent, TProperty>
+      | TChangeCallback<TComponent, TProperty>
+  ): TCallbacksConfigEntry<TComponent> =>
+    [properties, callbackConfig];
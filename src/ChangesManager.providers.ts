@@ -0,0 +1,51 @@
+import { DestroyRef, InjectionToken, Provider, inject } from '@angular/core';
+import { TChangesManagerDefaults } from './ChangesManager.types';
+
+/**
+ * Token of the defaults of the changes managers, provided with provideChangesManagerDefaults
+ */
+export const CHANGES_MANAGER_DEFAULTS =
+  new InjectionToken<TChangesManagerDefaults>('ChangesManager defaults');
+
+/**
+ * Provides the defaults of the changes managers created in the injector and in its children
+ * The defaults of the parent injectors are merged, the closest ones have priority
+ * @param defaults - the defaults of the managers, the parameters passed to each manager have priority over them
+ * @example
+ * bootstrapApplication(AppComponent, {
+ *   providers: [
+ *     provideChangesManagerDefaults({ debounceDelay: NaN, detection: 'markForCheck' }),
+ *   ],
+ * });
+ */
+export const provideChangesManagerDefaults = (
+  defaults: TChangesManagerDefaults
+): Provider => ({
+  provide: CHANGES_MANAGER_DEFAULTS,
+  useFactory: (): TChangesManagerDefaults => ({
+    ...inject(CHANGES_MANAGER_DEFAULTS, { optional: true, skipSelf: true }),
+    ...defaults,
+  }),
+});
+
+/**
+ * Returns the defaults of the changes managers of the current injection context, an empty object if none is provided or if it's executed outside of an injection context
+ */
+export const injectChangesManagerDefaults = (): TChangesManagerDefaults => {
+  try {
+    return inject(CHANGES_MANAGER_DEFAULTS, { optional: true }) ?? {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Returns the DestroyRef of the current injection context, null if it's executed outside of an injection context
+ */
+export const injectDestroyRef = (): DestroyRef => {
+  try {
+    return inject(DestroyRef, { optional: true });
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,126 @@
+import { TScheduleMode } from './ChangesManager.types';
+import { scheduleTask } from './ChangesManager.utils';
+
+/**
+ * Detection requested by a changes manager which is waiting for the next frame
+ */
+type TPendingDetection = {
+  detect: () => void;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  promise: Promise<void>;
+};
+
+/**
+ * Batches the change detection requested by many changes managers, so all of them are executed together once per frame
+ * A manager which requests the detection more than once in the same frame is only detected once
+ * @example
+ * const scheduler = new DetectionScheduler('microtask');
+ *
+ * scheduler.request(changesManager, changesManager.detectChanges);
+ */
+export class DetectionScheduler {
+  private schedule: TScheduleMode | number;
+
+  private pendingDetections = new Map<object, TPendingDetection>();
+
+  /**
+   * Cancels the task which executes the pending detections
+   */
+  private cancelTask: () => void = null;
+
+  /**
+   * @param schedule - (default: 'animationFrame') the moment in which the pending detections are executed, environments without animation frames fallback to a timeout
+   */
+  constructor(schedule: TScheduleMode | number = 'animationFrame') {
+    this.schedule = schedule;
+  }
+
+  /**
+   * Requests the detection of the owner for the next frame, the latest detect function of the owner is the one executed
+   * @param owner - the object which requests the detection, usually the changes manager
+   * @param detect - executes the detection
+   * @returns a promise which resolves once the detection was executed, or with undefined if it was cancelled
+   */
+  public request = (owner: object, detect: () => void): Promise<void> => {
+    const currentDetection = this.pendingDetections.get(owner);
+
+    if (currentDetection) {
+      currentDetection.detect = detect;
+
+      return currentDetection.promise;
+    }
+
+    const pendingDetection = { detect } as TPendingDetection;
+
+    pendingDetection.promise = new Promise<void>((resolve, reject) => {
+      pendingDetection.resolve = resolve;
+      pendingDetection.reject = reject;
+    });
+
+    this.pendingDetections.set(owner, pendingDetection);
+
+    if (!this.cancelTask) {
+      this.cancelTask = scheduleTask(() => {
+        this.cancelTask = null;
+        this.flush();
+      }, this.schedule);
+    }
+
+    return pendingDetection.promise;
+  };
+
+  /**
+   * Executes immediately the pending detections, only the one of the owner if provided
+   * A failing detection doesn't prevent the execution of the others, its promise is rejected with the error
+   */
+  public flush = (owner: object = null) => {
+    const owners = owner ? [owner] : Array.from(this.pendingDetections.keys());
+
+    owners.forEach((currentOwner) => {
+      const pendingDetection = this.pendingDetections.get(currentOwner);
+      if (!pendingDetection) return;
+
+      this.pendingDetections.delete(currentOwner);
+
+      try {
+        pendingDetection.detect();
+        pendingDetection.resolve();
+      } catch (error) {
+        pendingDetection.reject(error);
+      }
+    });
+
+    this.releaseTask();
+  };
+
+  /**
+   * Drops the pending detection of the owner, its promise resolves with undefined
+   */
+  public cancel = (owner: object) => {
+    this.pendingDetections.get(owner)?.resolve();
+    this.pendingDetections.delete(owner);
+
+    this.releaseTask();
+  };
+
+  /**
+   * Returns true if the owner has a detection waiting for the next frame
+   */
+  public isPending = (owner: object) => this.pendingDetections.has(owner);
+
+  /**
+   * Cancels the scheduled task once there are no pending detections
+   */
+  private releaseTask = () => {
+    if (this.pendingDetections.size) return;
+
+    this.cancelTask?.();
+    this.cancelTask = null;
+  };
+}
+
+/**
+ * Scheduler shared by all the changes managers, batches their detections into one animation frame
+ */
+export const detectionScheduler = new DetectionScheduler();
@@ -0,0 +1,221 @@
+import { ChangeDetectorRef, SimpleChange, SimpleChanges } from '@angular/core';
+import { ChangesManager } from './ChangesManager';
+import {
+  TChangesSummary,
+  TSimulatedInputs,
+  TTestChangesManagerParameters,
+  TWatchedProperty,
+} from './ChangesManager.types';
+import { getGroupId } from './ChangesManager.utils';
+
+/**
+ * State of the managers used with the testing helpers, created the first time a helper receives the manager
+ * @property simulatedProperties - properties which already received a simulated value, their next values are not first changes
+ * @property firedGroups - ids of the groups which fired since the last simulation, the assertions only consider them
+ */
+const testStateByManager = new WeakMap<
+  ChangesManager<any>,
+  {
+    simulatedProperties: Set<string>;
+    firedGroups: Set<string>;
+  }
+>();
+
+/**
+ * Number of microtasks awaited to let the promise chains of the callbacks settle while the timers are faked
+ */
+const MICROTASKS_TO_SETTLE = 20;
+
+/**
+ * Returns the jest object if the tests are running with jest and its fake timers are enabled
+ * Jest injects its object in the scope of every module, so it's not a global
+ */
+const getFakeTimers = (): { runOnlyPendingTimers: () => void } => {
+  if (typeof jest === 'undefined') return null;
+
+  // legacy fake timers replace the timers with mock functions, modern fake timers expose their clock
+  const timers = setTimeout as unknown as Record<string, unknown>;
+  const isFaked = !!timers._isMockFunction || !!timers.clock;
+
+  return isFaked ? jest : null;
+};
+
+/**
+ * Returns the test state of the manager, the first time it's created and the manager starts tracking the fired groups
+ * Any manager is supported, the groups which fired before its first use are not tracked
+ */
+const getTestState = (changesManager: ChangesManager<any>) => {
+  const currentTestState = testStateByManager.get(changesManager);
+  if (currentTestState) return currentTestState;
+
+  const testState = {
+    simulatedProperties: new Set<string>(),
+    firedGroups: new Set<string>(),
+  };
+
+  // the stream completes when the manager is destroyed
+  changesManager.firedGroups$.subscribe((groupId) =>
+    testState.firedGroups.add(groupId)
+  );
+
+  testStateByManager.set(changesManager, testState);
+
+  return testState;
+};
+
+/**
+ * Creates a ChangeDetectorRef whose methods do nothing, spy on them to assert the change detection
+ * @example
+ * const changeDetectorRef = createFakeChangeDetectorRef();
+ * const detectChanges = jest.spyOn(changeDetectorRef, 'detectChanges');
+ */
+export const createFakeChangeDetectorRef = (): ChangeDetectorRef => {
+  return {
+    markForCheck: () => {},
+    detach: () => {},
+    detectChanges: () => {},
+    checkNoChanges: () => {},
+    reattach: () => {},
+  } as ChangeDetectorRef;
+};
+
+/**
+ * Creates a changes manager for the tests, without an injection context and with a fake ChangeDetectorRef if none is provided
+ * The history keeps the latest 20 changes by default, to inspect them when a test fails
+ * @param parameters - same parameters of the changes manager
+ * @example
+ * const changesManager = createTestChangesManager({
+ *   component,
+ *   callbacks: { name: component.computeFullName },
+ * });
+ *
+ * await simulateInputs(changesManager, { name: ['', 'johnny'] });
+ *
+ * expectGroupFired(changesManager, ['name']);
+ */
+export const createTestChangesManager = <TComponent extends object>({
+  changeDetectorRef = createFakeChangeDetectorRef(),
+  destroyRef = null,
+  historySize = 20,
+  ...parameters
+}: TTestChangesManagerParameters<TComponent>): ChangesManager<TComponent> => {
+  const changesManager = new ChangesManager<TComponent>({
+    ...parameters,
+    changeDetectorRef,
+    destroyRef,
+    historySize,
+  });
+
+  // the fired groups are tracked from the creation
+  getTestState(changesManager);
+
+  return changesManager;
+};
+
+/**
+ * Simulates the binding of the inputs like Angular does: the values are assigned to the component and then the changes are managed
+ * The first value simulated for each property is a first change, the following ones are not
+ * @param changesManager - the manager of the component, e.g. created with createTestChangesManager
+ * @param inputs - the previous and current values of each input
+ * @returns the promise of the manageChanges, which resolves once the callbacks settled
+ */
+export const simulateInputs = <TComponent extends object>(
+  changesManager: ChangesManager<TComponent>,
+  inputs: TSimulatedInputs<TComponent>
+): Promise<TChangesSummary<TComponent>> => {
+  const { simulatedProperties, firedGroups } = getTestState(changesManager);
+  // the component is protected, the helpers bind its inputs like Angular does
+  const component = changesManager['component'] as TComponent;
+
+  firedGroups.clear();
+
+  const simpleChanges = Object.keys(inputs).reduce((accumulator, property) => {
+    const [previousValue, currentValue] = inputs[property];
+    const firstChange = !simulatedProperties.has(property);
+
+    simulatedProperties.add(property);
+    component[property] = currentValue;
+
+    return {
+      ...accumulator,
+      [property]: new SimpleChange(previousValue, currentValue, firstChange),
+    };
+  }, {} as SimpleChanges);
+
+  return changesManager.manageChanges(simpleChanges);
+};
+
+/**
+ * Executes the pending debounced and scheduled work of the manager and waits for its callbacks
+ * If the jest fake timers are enabled, the pending timers are also executed
+ * @param changesManager - the manager to flush
+ */
+export const flushDebounce = async <TComponent extends object>(
+  changesManager: ChangesManager<TComponent>
+): Promise<void> => {
+  const fakeTimers = getFakeTimers();
+
+  changesManager.flush();
+  fakeTimers?.runOnlyPendingTimers();
+
+  if (fakeTimers) {
+    // the timers are faked, so only the microtasks can be awaited
+    for (let i = 0; i < MICROTASKS_TO_SETTLE; i++) await Promise.resolve();
+
+    return;
+  }
+
+  await new Promise((resolve) => setTimeout(resolve, 0));
+};
+
+/**
+ * Returns the groups which fired since the last simulation of the inputs, or since the first use of the helpers with the manager
+ */
+const getFiredGroups = <TComponent extends object>(
+  changesManager: ChangesManager<TComponent>
+): string[] => Array.from(getTestState(changesManager).firedGroups);
+
+const formatGroups = (groupIds: string[]) =>
+  groupIds.length
+    ? groupIds.map((groupId) => `[${groupId}]`).join(', ')
+    : 'none';
+
+/**
+ * Asserts that the group with exactly these properties (in any order) fired since the last simulation of the inputs
+ * @param changesManager - the manager of the component, e.g. created with createTestChangesManager
+ * @param properties - the properties of the group
+ */
+export const expectGroupFired = <TComponent extends object>(
+  changesManager: ChangesManager<TComponent>,
+  properties: TWatchedProperty<TComponent>[]
+) => {
+  const groupId = getGroupId(properties);
+  const firedGroups = getFiredGroups(changesManager);
+
+  if (firedGroups.includes(groupId)) return;
+
+  throw new Error(
+    `ChangesManager: expected the group [${groupId}] to fire, the fired groups were ${formatGroups(
+      firedGroups
+    )}`
+  );
+};
+
+/**
+ * Asserts that the group with exactly these properties (in any order) didn't fire since the last simulation of the inputs
+ * @param changesManager - the manager of the component, e.g. created with createTestChangesManager
+ * @param properties - the properties of the group
+ */
+export const expectGroupNotFired = <TComponent extends object>(
+  changesManager: ChangesManager<TComponent>,
+  properties: TWatchedProperty<TComponent>[]
+) => {
+  const groupId = getGroupId(properties);
+  const firedGroups = getFiredGroups(changesManager);
+
+  if (!firedGroups.includes(groupId)) return;
+
+  throw new Error(
+    `ChangesManager: expected the group [${groupId}] not to fire`
+  );
+};
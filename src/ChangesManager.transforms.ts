@@ -0,0 +1,61 @@
+import { comparators } from './ChangesManager.comparators';
+import { TTransform } from './ChangesManager.types';
+
+/**
+ * Coerces the value into a boolean, same rules as the boolean attributes of the html elements:
+ * any value except null, undefined, false and 'false' is true, so an empty attribute is true
+ */
+const toBoolean = (value: unknown): boolean =>
+  typeof value === 'boolean' ? value : value != null && `${value}` !== 'false';
+
+/**
+ * Coerces the value into a number, values which don't represent a number are NaN
+ * Partially numeric strings like '12px' are also NaN
+ */
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+
+  const isNumeric =
+    !isNaN(parseFloat(value as string)) && !isNaN(Number(value));
+
+  return isNumeric ? Number(value) : NaN;
+};
+
+/**
+ * Coerces the value into a date, ISO strings and timestamps are parsed
+ * Empty values and values which don't represent a valid date are null
+ * A new date is created for every value, so the dates are compared by time unless the property has another comparator
+ */
+const toDate: TTransform<Date> = Object.assign(
+  (value: unknown): Date => {
+    if (value == null || value === '') return null;
+
+    const date =
+      value instanceof Date ? value : new Date(value as string | number);
+
+    return isNaN(date.getTime()) ? null : date;
+  },
+  { comparator: comparators.time }
+);
+
+/**
+ * Built-in transforms which coerce the values received by the inputs
+ * @property toBoolean - any value except null, undefined, false and 'false' is true
+ * @property toNumber - numeric values and strings are numbers, anything else is NaN
+ * @property toDate - dates, ISO strings and timestamps are dates, anything else is null, the dates are compared by time
+ * @example
+ * new ChangesManager({
+ *   component: this,
+ *   changeDetectorRef,
+ *   transforms: {
+ *     disabled: transforms.toBoolean,
+ *     pageSize: transforms.toNumber,
+ *     dateOfBirth: transforms.toDate,
+ *   },
+ * });
+ */
+export const transforms = {
+  toBoolean,
+  toNumber,
+  toDate,
+};
@@ -1,20 +1,58 @@
-import { ChangeDetectorRef, SimpleChanges } from '@angular/core';
 import {
-  TCallbacksConfig,
-  TPropertiesByGroup,
-  TCallbacksByGroup,
-  TCallbacksConfigParameter,
-  TCallbackConfig,
+  ChangeDetectorRef,
+  DestroyRef,
+  EffectRef,
+  Injector,
+  Signal,
+  SimpleChange,
+  SimpleChanges,
+  WritableSignal,
+  assertInInjectionContext,
+  computed as createComputed,
+  effect as createEffect,
+  inject,
+  signal as createSignal,
+  untracked,
+} from '@angular/core';
+import { ChangesManagerCore } from './ChangesManager.core';
+import {
+  injectChangesManagerDefaults,
+  injectDestroyRef,
+} from './ChangesManager.providers';
+import {
+  TChangeDetector,
+  TChangesManagerParameters,
   TChangesSummary,
-  TChangeCallback,
-  TChangeCallbackValidator,
+  TDetectionStrategy,
+  TEqualityComparator,
+  TInjectChangesManagerParameters,
+  TSignalsSource,
 } from './ChangesManager.types';
 
-import { debounce, getChangesSummary } from './ChangesManager.utils';
+/**
+ * Returns the function which updates the view of the component according to the detection strategy, null if the view is not updated
+ */
+const createDetect = <TComponent extends object>(
+  detection: TDetectionStrategy<TComponent>,
+  changeDetectorRef: TChangeDetector,
+  component: TComponent
+): (() => void) => {
+  if (detection === 'none') return null;
+
+  if (typeof detection === 'function') {
+    return () => detection(changeDetectorRef, component);
+  }
+
+  if (detection === 'markForCheck')
+    return () => changeDetectorRef.markForCheck();
+
+  return () => changeDetectorRef.detectChanges();
+};
 
 /**
  * Changes manager
  * This class helps to manage the changes of a component in a more efficient way
+ * Angular adapter of the core: the view is updated through the change detector, the manager is destroyed with the component and the properties could be exposed as signals
  * @template TComponent - the component type
  * @example
  * // The basic configuration avoid you to have syncronization issues between the component and the properties
@@ -105,381 +143,199 @@ import { debounce, getChangesSummary } from './ChangesManager.utils';
  *  }
  * }
  */
-export class ChangesManager<TComponent extends object> {
+export class ChangesManager<
+  TComponent extends object
+> extends ChangesManagerCore<TComponent> {
   /**
-   * Component instance to which the changes manager is attached
-   */
-  private component: object;
-
-  /**
-   * Configuration of the callbacks to be executed when the component receives changes
-   */
-  private callbacksConfig: TCallbacksConfig<TComponent> = null;
-
-  /**
-   * List properties by group helps to know which properties are related to each callback
-   */
-  private propertiesByGroup: TPropertiesByGroup<TComponent> = new Map();
-
-  /**
-   * List of callbacks by group of properties
+   * Reference to the change detector of the component
    */
-  private callbacksByGroup: TCallbacksByGroup<TComponent> = new Map();
+  private changeDetectorRef: TChangeDetector;
 
   /**
-   * Reference to the change detector of the component
-   * This is used to force the change detection when the callbacks are executed
+   * Signals of the properties requested with the signal method, they are updated every time the changes are managed
    */
-  private changeDetectorRef: ChangeDetectorRef;
+  private signalsByProperty = new Map<
+    keyof TComponent,
+    WritableSignal<unknown>
+  >();
 
   /**
-   *  (default: true) if true, the detect changes method will be called only if changes are detected, otherwise it will be called always
+   * Last values read from the signals source, used to build the simple changes of the signals
    */
-  private strict: boolean = true;
-
-  private onChanges?: (changesSummary: TChangesSummary<TComponent>) => void;
+  private signalsSourceValues = new Map<keyof TComponent, unknown>();
 
   /**
-   * Constructor of the changes manager
+   * Constructor of the changes manager, it receives the same parameters of the core
+   * The defaults provided with provideChangesManagerDefaults are used for the parameters which are not passed
    * @param component - the component instance to which the changes manager is attached
    * @param changeDetectorRef - reference to the change detector of the component
-   * @param debounceDelay - debounce the execution of the manageChanges method to avoid multiple executions in a short period of time (default: 0)
-   * @param callbacks - configuration of the callbacks to be executed when the component receives changes
-   * @param strict - (default: true) if true, the detect changes method will be called only if changes are detected, otherwise it will be called always
-   * @param onChangesCallbacks - callback to be executed after the changes are managed, if the strict mode is enabled, this callback will be executed only if changes are detected
-   */
-  constructor({
-    component,
-    changeDetectorRef,
-    debounceDelay = 0,
-    callbacks: callbacksConfig,
-    strict = true,
-    onChanges,
-  }: {
-    component: TComponent;
-    changeDetectorRef: ChangeDetectorRef;
-    callbacks?: TCallbacksConfigParameter<TComponent>;
-    debounceDelay?: number | null;
-    strict?: boolean;
-    onChanges?: (changesSummary: TChangesSummary<TComponent>) => void;
-  }) {
-    this.component = component;
-    this.changeDetectorRef = changeDetectorRef;
-    this.strict = strict;
-    this.onChanges = onChanges;
-
-    const shouldDebounceDetection = !isNaN(debounceDelay);
-
-    this.detectChangesDebounced = debounce(
-      this.detectChanges,
-      debounceDelay ?? 0
-    );
-
-    this.manageChanges = shouldDebounceDetection
-      ? debounce(this._manageChanges, debounceDelay)
-      : this._manageChanges;
-
-    this.setCallbacksConfig(callbacksConfig);
-  }
-
-  /**
-   * Updates the callbacks configuration of the changes manager based on the configuration parameter
-   */
-  private setCallbacksConfig = (
-    callbacksConfig: TCallbacksConfigParameter<TComponent>
-  ) => {
-    if (!callbacksConfig) return;
-
-    const isArray = Array.isArray(callbacksConfig);
-
-    this.callbacksConfig = isArray
-      ? this.getCallbacksConfigFromParameter(callbacksConfig)
-      : this.getCallbacksConfigFromParameterObject(callbacksConfig);
-
-    const { callbacksByGroup, propertiesByGroup } =
-      this.computeCallbackConfigDerivatives(this.callbacksConfig);
-
-    this.propertiesByGroup = propertiesByGroup;
-    this.callbacksByGroup = callbacksByGroup;
-  };
-
-  public detectChanges = () => {
-    this.changeDetectorRef.detectChanges();
-  };
-
-  public detectChangesDebounced: () => void;
-
-  /**
-   * This method should be called every time the component inputs change on the ngOnChanges lifecycle method
-   * @param simpleChanges the simple changes object
-   * @returns the changes summary
-   * the changes summary is an object where the keys are the input attributes and the values are the simple changes
-   * the simple changes are extended with a didChange property which indicates if the value changed or not
+   * @param destroyRef - the manager is destroyed together with the DestroyRef, if not provided the DestroyRef of the current injection context is used when available
+   * @param detection - (default: 'detectChanges') how the manager updates the view: detectChanges, markForCheck, none or a custom function
    */
-  public manageChanges: (
-    simpleChanges: SimpleChanges
-  ) => TChangesSummary<TComponent>;
-
-  /**
-   * The configuration parameter is not normalized, this method normalizes so both posible configurations styles are supported
-   */
-  private getCallbacksConfigFromParameter = (
-    callbacksConfig: [
-      (keyof TComponent)[],
-      TCallbackConfig<TComponent> | TChangeCallback<TComponent>
-    ][]
-  ): TCallbacksConfig<TComponent> => {
-    const sanitizedConfig = callbacksConfig.map(([keys, callbackConfig]) => {
-      const isFunction = typeof callbackConfig === 'function';
+  constructor(managerParameters: TChangesManagerParameters<TComponent>) {
+    const {
+      changeDetectorRef,
+      destroyRef = injectDestroyRef(),
+      detection = 'detectChanges',
+      ...parameters
+    }: TChangesManagerParameters<TComponent> = {
+      ...injectChangesManagerDefaults(),
+      ...managerParameters,
+    };
 
-      return [
-        keys,
-        isFunction
-          ? {
-              callback: callbackConfig,
-              validator: null,
-            }
-          : callbackConfig,
-      ];
+    super({
+      ...parameters,
+      destroyRef,
+      detect: createDetect(detection, changeDetectorRef, parameters.component),
     });
 
-    return sanitizedConfig as TCallbacksConfig<TComponent>;
-  };
-
-  /**
-   * the more basic configuration of the callbacks is an object with the attributes as keys and the callback as value
-   * this methods normalizes the configuration to the more complex one which is an array of arrays
-   */
-  private getCallbacksConfigFromParameterObject = (
-    callbacksConfig: TCallbacksConfigParameter<TComponent>
-  ): TCallbacksConfig<TComponent> => {
-    const stateProps = Object.keys(callbacksConfig ?? {});
-
-    const callbacksSource = stateProps.reduce(
-      (
-        accumulator: [[keyof TComponent], TCallbackConfig<TComponent>][],
-        key
-      ) => {
-        const config: TCallbacksConfig<TComponent> = callbacksConfig[key];
-        const isFunction = typeof config === 'function';
-
-        const callbackConfig = (
-          isFunction
-            ? {
-                callback: config,
-                validator: null,
-              }
-            : config
-        ) as TCallbackConfig<TComponent>;
-
-        const keys = [key];
-        const changesConfig = [keys, callbackConfig] as [
-          [keyof TComponent],
-          TCallbackConfig<TComponent>
-        ];
-
-        return [...accumulator, changesConfig];
-      },
-      []
-    );
+    this.changeDetectorRef = changeDetectorRef;
 
-    return callbacksSource;
-  };
+    this.onValueTracked = (property, value) =>
+      this.signalsByProperty.get(property)?.set(value);
+  }
 
   /**
-   * This method computes the propertiesByGroup and callbacksByGroup from the callbacksConfig
-   * @param callbacksConfig the callbacks configuration
-   * @returns the propertiesByGroup and callbacksByGroup
-   * propertiesByGroup is a map where the key is the group id and the value is a set of attributes which trigger the callback
-   * callbacksByGroup is a map where the key is the group id and the value is the callback to execute
+   * Returns a read-only signal with the value of the property, the signal is updated every time the manageChanges is executed
+   * The initial value is the last value received by the manageChanges, or the value of the component if the property was not managed yet
+   * The comparator of the property is used as the equality function of the signal
+   * @param property - the property to expose as signal
+   * @example
+   * public userId = this.changesManager.signal('userId');
    */
-  private computeCallbackConfigDerivatives = (
-    callbacksConfig: TCallbacksConfig<TComponent>
-  ): {
-    propertiesByGroup: TPropertiesByGroup<TComponent>;
-    callbacksByGroup: TCallbacksByGroup<TComponent>;
-  } => {
-    const propertiesByGroup: TPropertiesByGroup<TComponent> = new Map();
-    const callbacksByGroup: TCallbacksByGroup<TComponent> = new Map();
-
-    callbacksConfig.forEach(([props, { callback, validator }]) => {
-      // groups cannot be duplicated, so we use the sorted props as the key
-      const groupId = props.sort().join('|');
-
-      const groupAttributesSet = new Set(props);
-
-      propertiesByGroup.set(groupId, groupAttributesSet);
-
-      // all callbacks are **debounced** so it doesn't matter if we call the same callback more than one
-      callbacksByGroup.set(groupId, {
-        callback,
-        validator: validator ?? null,
+  public signal = <TKey extends keyof TComponent>(
+    property: TKey
+  ): Signal<TComponent[TKey]> => {
+    if (!this.signalsByProperty.has(property)) {
+      const value = (
+        this.latestValues.has(property)
+          ? this.latestValues.get(property)
+          : (this.component as TComponent)[property]
+      ) as TComponent[TKey];
+
+      const propertySignal = createSignal(value, {
+        equal: (this.comparatorsByProperty[property] ??
+          this.equality) as TEqualityComparator<TComponent[TKey]>,
       });
-    });
-
-    return {
-      callbacksByGroup,
-      propertiesByGroup,
-    };
-  };
-
-  /**
-   * This method is called when a change is detected in the component
-   * returns the callbacks which should be executed based on the changes detected in the component
-   * if no changes are detected, it returns an empty array
-   * @param changesSummary the changes parameters
-   */
-  private getCallbacksWhichShouldBeExecuted = (
-    changesSummary: TChangesSummary<TComponent>
-  ) => {
-    const properties = Object.keys(changesSummary);
-    const callbacksGroups = Array.from(this.callbacksByGroup);
-
-    const callbacks = callbacksGroups.reduce(
-      (accumulator, [groupId, { callback, validator }]) => {
-        const shouldIncludeGroup = properties.some((property) => {
-          const groupAttributes = this.propertiesByGroup.get(groupId);
 
-          const attributeHasChanges = changesSummary[property].didChange;
-
-          const attributeBelongsToGroup = groupAttributes.has(
-            property as keyof TComponent
-          );
-
-          return attributeHasChanges && attributeBelongsToGroup;
-        });
-
-        if (shouldIncludeGroup) {
-          const validators = accumulator.get(callback) ?? new Set();
-
-          if (validator) validators.add(validator);
-
-          accumulator.set(callback, validators);
-        }
-
-        return accumulator;
-      },
-      new Map<
-        TChangeCallback<TComponent>,
-        Set<TChangeCallbackValidator<TComponent>>
-      >()
-    );
+      this.signalsByProperty.set(
+        property,
+        propertySignal as WritableSignal<unknown>
+      );
+    }
 
-    return callbacks;
+    return this.signalsByProperty.get(property).asReadonly() as Signal<
+      TComponent[TKey]
+    >;
   };
 
   /**
-   * This method executes the callbacks which should be executed based on the changes detected in the component and the validators
-   * If there are not validators it executes all the callbacks linked to the changed attributes
+   * Returns a computed signal which is recomputed only when one of the properties of the group changes
+   * @param properties - the group of properties
+   * @param computation - receives the current values of the properties of the group
+   * @example
+   * public fullName = this.changesManager.computed(
+   *   ['name', 'surname'],
+   *   ({ name, surname }) => `${name} ${surname}`
+   * );
    */
-  private executeChangesCallbacks = (
-    changesSummary: TChangesSummary<TComponent>
-  ) => {
-    // we filter the groups to execute only the ones which have at least one attribute which changed
-    const callbacks = this.getCallbacksWhichShouldBeExecuted(changesSummary);
+  public computed = <TKey extends keyof TComponent, TResult>(
+    properties: TKey[],
+    computation: (values: Pick<TComponent, TKey>) => TResult
+  ): Signal<TResult> => {
+    const signals = properties.map(
+      (property) => [property, this.signal(property)] as const
+    );
 
-    Array.from(callbacks.entries()).forEach(([callback, validators]) => {
-      const shouldExecuteCallback = Array.from(validators).every((validator) =>
-        validator(changesSummary)
+    return createComputed(() => {
+      const values = signals.reduce(
+        (accumulator, [property, propertySignal]) => ({
+          ...accumulator,
+          [property]: propertySignal(),
+        }),
+        {} as Pick<TComponent, TKey>
       );
 
-      if (!shouldExecuteCallback) return;
-
-      callback.call(this.component, changesSummary);
+      return computation(values);
     });
-
-    this.detectChanges();
   };
 
   /**
-   * This method should be called every time the component inputs change on the ngOnChanges lifecycle method
-   * @param simpleChanges the simple changes object
-   * @returns the changes summary
-   * the changes summary is an object where the keys are the input attributes and the values are the simple changes
-   * the simple changes are extended with a didChange property which indicates if the value changed or not
+   * Manages the changes of a group of signals (e.g. signal inputs) instead of the SimpleChanges object
+   * The values of the signals are compared with the values of the previous execution to build the simple changes
+   * If it's executed inside a reactive context (e.g. an effect), the signals of the source are tracked
+   * @param signalsSource - object where the keys are the properties and the values are the signals
+   * @returns the same promise returned by the manageChanges method
    */
-  private _manageChanges = (
-    simpleChanges: SimpleChanges
-  ): TChangesSummary<TComponent> => {
-    const changesSummary = getChangesSummary<TComponent>(simpleChanges);
-
-    const properties = Object.keys(simpleChanges);
+  public manageSignals = (
+    signalsSource: TSignalsSource<TComponent>
+  ): Promise<TChangesSummary<TComponent>> => {
+    const properties = Object.keys(signalsSource) as (keyof TComponent)[];
 
-    const shouldProcessChanges = properties.some((key) => {
-      const simpleChange = changesSummary[key];
+    const simpleChanges = properties.reduce((accumulator, property) => {
+      const currentValue = signalsSource[property]();
+      const firstChange = !this.signalsSourceValues.has(property);
+      const previousValue = this.signalsSourceValues.get(property);
 
-      return simpleChange.didChange;
-    });
-
-    // if no changes were detected we don't need to execute the callbacks
-    if (this.strict && !shouldProcessChanges) return changesSummary;
+      if (!firstChange && Object.is(previousValue, currentValue)) {
+        return accumulator;
+      }
 
-    this.executeChangesCallbacks(changesSummary);
+      this.signalsSourceValues.set(property, currentValue);
 
-    this.onChanges?.(changesSummary);
+      return {
+        ...accumulator,
+        [property]: new SimpleChange(previousValue, currentValue, firstChange),
+      };
+    }, {} as SimpleChanges);
 
-    return changesSummary;
+    return untracked(() => this.manageChanges(simpleChanges));
   };
 
   /**
-   * Manually execute all the callbacks subscribed to the component, this execution is synchronous
+   * Creates an effect which executes the manageSignals every time one of the signals of the source changes
+   * @param signalsSource - object where the keys are the properties and the values are the signals
+   * @param injector - injector of the effect, required if the method is executed outside of an injection context
+   * @example
+   * constructor() {
+   *   this.changesManager.connectSignals({ name: this.name, surname: this.surname });
+   * }
    */
-  public executeCallbacks = ({
-    avoidValidations = false,
-  }: {
-    avoidValidations?: boolean;
-  } = {}) => {
-    const callbacksGroups = Array.from(this.callbacksByGroup);
-
-    const { callbacks, attributes } = callbacksGroups.reduce(
-      (accumulator, [groupId, { callback, validator }]) => {
-        const attributes = groupId.split('|');
-
-        attributes.forEach((attribute) => {
-          accumulator.attributes.add(attribute);
-        });
-
-        const validations = accumulator.callbacks.get(callback) ?? new Set();
-        validations.add(validator);
-
-        accumulator.callbacks.set(callback, validations);
-
-        return accumulator;
-      },
-      {
-        callbacks: new Map<
-          TChangeCallback<TComponent>,
-          Set<TChangeCallbackValidator<TComponent>>
-        >(),
-        attributes: new Set<string>(),
-      }
-    );
-
-    const simpleChanges = Array.from(attributes).reduce(
-      (accumulator, attribute) => ({
-        ...accumulator,
-        [attribute]: {
-          currentValue: this.component[attribute],
-          previousValue: this.component[attribute],
-          firstChange: false,
-          isFirstChange: () => false,
-        },
-      }),
-      {}
-    );
-
-    const changesSummary = getChangesSummary<TComponent>(simpleChanges);
-
-    Array.from(callbacks.entries()).forEach(([callback, validators]) => {
-      const shouldExecuteCallback =
-        avoidValidations ||
-        Array.from(validators).every((validator) =>
-          validator ? validator(changesSummary) : true
-        );
-
-      if (!shouldExecuteCallback) return;
-
-      callback.call(this.component, changesSummary);
+  public connectSignals = (
+    signalsSource: TSignalsSource<TComponent>,
+    { injector }: { injector?: Injector } = {}
+  ): EffectRef => {
+    return createEffect(() => this.manageSignals(signalsSource), {
+      injector,
+      allowSignalWrites: true,
     });
   };
 }
+
+/**
+ * Creates a changes manager whose change detector and DestroyRef are injected from the current injection context
+ * It should be executed in an injection context, e.g. a field initializer or the constructor of the component
+ * @param parameters - same parameters of the changes manager except the changeDetectorRef
+ * @example
+ * export class MyComponent implements OnChanges {
+ *   changesManager = injectChangesManager({
+ *     component: this,
+ *     callbacks: [[['name', 'surname'], this.computeFullName]],
+ *   });
+ *
+ *   ngOnChanges(changes: SimpleChanges) {
+ *     this.changesManager.manageChanges(changes);
+ *   }
+ * }
+ */
+export const injectChangesManager = <TComponent extends object>(
+  parameters: TInjectChangesManagerParameters<TComponent>
+): ChangesManager<TComponent> => {
+  assertInInjectionContext(injectChangesManager);
+
+  return new ChangesManager<TComponent>({
+    destroyRef: inject(DestroyRef),
+    ...parameters,
+    changeDetectorRef: inject(ChangeDetectorRef),
+  });
+};
@@ -1,3 +1,36 @@
+/**
+ * Change of a property received by the manager, the SimpleChange of Angular satisfies it
+ * @property previousValue {unknown} - the previous value
+ * @property currentValue {unknown} - the current value
+ * @property firstChange {boolean} - true if it's the first value received by the property
+ */
+export type TSimpleChange = {
+  previousValue: unknown;
+  currentValue: unknown;
+  firstChange: boolean;
+};
+
+/**
+ * Changes received by the manager per property, the SimpleChanges of Angular satisfies it
+ */
+export type TSimpleChanges = Record<string, TSimpleChange>;
+
+/**
+ * Change detector of a view, the ChangeDetectorRef of Angular satisfies it
+ */
+export type TChangeDetector = {
+  detectChanges: () => void;
+  markForCheck: () => void;
+};
+
+/**
+ * Lifecycle to which the manager is attached, the DestroyRef of Angular satisfies it
+ * @property onDestroy {Function} - registers a callback executed on destroy, it could return a function which unregisters the callback
+ */
+export type TDestroyRef = {
+  onDestroy: (callback: () => void) => (() => void) | void;
+};
+
 /**
  * Changes summary per simple change
  * @template TValue - the type of the value
@@ -5,51 +38,252 @@
  * @property firstChange {boolean} - true if it's the first change
  * @property currentValue {TValue} - the current value
  * @property previousValue {TValue} - the previous value
+ * @property rawValue {unknown} - the value received before the transform of the property, only for the transformed properties
  */
 export type TChange<TValue> = {
   didChange: boolean;
   firstChange: boolean;
   currentValue: TValue;
   previousValue?: TValue;
+  rawValue?: unknown;
 };
 
+/**
+ * Values which are not traversed by the property paths
+ */
+type TPathLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | Function
+  | readonly unknown[];
+
+/**
+ * Remaining depth of the property paths, limits the recursion of the types
+ */
+type TPathDepth = [never, 0, 1, 2];
+
+/**
+ * All the paths of the object with their nested properties, up to four levels
+ */
+type TNestedPath<TValue, TDepth extends number = 3> = [TDepth] extends [never]
+  ? never
+  : TValue extends TPathLeaf
+  ? never
+  : {
+      [key in keyof TValue & string]:
+        | key
+        | `${key}.${TNestedPath<NonNullable<TValue[key]>, TPathDepth[TDepth]>}`;
+    }[keyof TValue & string];
+
+/**
+ * Dot paths of the nested properties of the component, e.g. 'config.filters.date'
+ * @template TComponent - the component type
+ */
+export type TPropertyPath<TComponent extends object> = Exclude<
+  TNestedPath<TComponent>,
+  keyof TComponent
+>;
+
+/**
+ * Value of a dot path of the component
+ * @template TValue - the component type
+ * @template TPath - the dot path
+ */
+export type TPathValue<
+  TValue,
+  TPath extends string
+> = TPath extends `${infer TKey}.${infer TRest}`
+  ? TKey extends keyof TValue
+    ? TPathValue<NonNullable<TValue[TKey]>, TRest>
+    : never
+  : TPath extends keyof TValue
+  ? TValue[TPath]
+  : never;
+
+/**
+ * Property of the component or dot path of a nested property which could be watched by a group
+ * @template TComponent - the component type
+ */
+export type TWatchedProperty<TComponent extends object> =
+  | keyof TComponent
+  | TPropertyPath<TComponent>;
+
+/**
+ * Properties of the component which could receive changes like the inputs, the methods and the other functions are excluded
+ * @template TComponent - the component type
+ */
+export type TInputProperty<TComponent extends object> = {
+  [key in keyof TComponent]-?: TComponent[key] extends Function ? never : key;
+}[keyof TComponent];
+
+/**
+ * Input property or dot path of a nested property which could be used in the callbacks configuration
+ * @template TComponent - the component type
+ */
+export type TGroupProperty<TComponent extends object> =
+  | TInputProperty<TComponent>
+  | TPropertyPath<TComponent>;
+
 /**
  * Changes summary per component
+ * Only the properties which received a change are part of the summary, so every property could be absent
  * @template TComponent - the component type
  * @property [key in keyof TComponent] {TChange<TComponent[key]>} - the changes summary per property if the property changed
+ * @property [path in TPropertyPath<TComponent>] {TChange} - the changes summary of the nested properties watched by the groups
  */
 export type TChangesSummary<TComponent extends object> = {
-  [key in keyof TComponent]: TChange<TComponent[key]>;
+  [key in keyof TComponent]?: TChange<TComponent[key]>;
+} & {
+  [path in TPropertyPath<TComponent>]?: TChange<TPathValue<TComponent, path>>;
+};
+
+/**
+ * Changes summary received by the callbacks and the validators of a group, narrowed to the properties of the group
+ * Only the properties which received a change are part of the summary, so every property could be absent
+ * @template TComponent - the component type
+ * @template TProperty - the properties of the group
+ */
+export type TGroupChangesSummary<
+  TComponent extends object,
+  TProperty extends TWatchedProperty<TComponent> = TWatchedProperty<TComponent>
+> = {
+  [key in Extract<TProperty, keyof TComponent>]?: TChange<TComponent[key]>;
+} & {
+  [path in Extract<TProperty, TPropertyPath<TComponent>>]?: TChange<
+    TPathValue<TComponent, path>
+  >;
+};
+
+/**
+ * Context of the execution of a callback
+ * @property signal {AbortSignal} - aborted when a newer execution of the same callback starts, async callbacks should stop their work when this happens
+ */
+export type TChangeCallbackContext = {
+  signal: AbortSignal;
 };
 
 /**
  * Callback to be executed when a change is detected
+ * If the callback returns a promise, the detectChanges will be executed once the promise settles
  * @template TComponent - the component type
+ * @template TProperty - the properties of the group, the changes summary is narrowed to them
  * @param changesSummary - the changes summary
+ * @param context - the context of the execution, contains the abort signal of the execution
  */
-export type TChangeCallback<TComponent extends object> = (
-  changesSummary: TChangesSummary<TComponent>
-) => void;
+export type TChangeCallback<
+  TComponent extends object,
+  TProperty extends TWatchedProperty<TComponent> = TWatchedProperty<TComponent>
+> = (
+  changesSummary: TGroupChangesSummary<TComponent, TProperty>,
+  context: TChangeCallbackContext
+) => void | Promise<void>;
 
 /**
  * Callback to validate if the change should be executed
  * This is an optional callback that can be used to validate if the change should be restricted by some condition
  * @template TComponent - the component type
+ * @template TProperty - the properties of the group, the changes summary is narrowed to them
  * @param changesSummary - the total changes summary
  */
-export type TChangeCallbackValidator<TComponent extends object> = (
-  changesSummary: TChangesSummary<TComponent>
+export type TChangeCallbackValidator<
+  TComponent extends object,
+  TProperty extends TWatchedProperty<TComponent> = TWatchedProperty<TComponent>
+> = (changesSummary: TGroupChangesSummary<TComponent, TProperty>) => boolean;
+
+/**
+ * Equality comparator
+ * Used to decide if a property really changed, if the comparator returns true the property is considered unchanged
+ * @template TValue - the type of the value
+ * @param previousValue - the previous value of the property
+ * @param currentValue - the current value of the property
+ */
+export type TEqualityComparator<TValue = unknown> = (
+  previousValue: TValue,
+  currentValue: TValue
 ) => boolean;
 
+/**
+ * Transforms the value received by a property before its change is computed, e.g. to coerce a string into a number
+ * The transforms which create a new object for every value can define the comparator of their values, it's used if the property has no other comparator
+ * @template TValue - the type of the transformed value
+ */
+export type TTransform<TValue> = ((value: unknown) => TValue) & {
+  comparator?: TEqualityComparator<TValue>;
+};
+
+/**
+ * Transforms configuration
+ * Allows to define a transform per property, the transformed value is written back to the component
+ * @template TComponent - the component type
+ */
+export type TTransformsConfig<TComponent extends object> = {
+  [key in keyof TComponent]?: TTransform<TComponent[key]>;
+};
+
+/**
+ * Comparators configuration
+ * Allows to define an specific equality comparator per property or dot path of a nested property
+ * @template TComponent - the component type
+ */
+export type TComparatorsConfig<TComponent extends object> = {
+  [key in keyof TComponent]?: TEqualityComparator<TComponent[key]>;
+} & {
+  [path in TPropertyPath<TComponent>]?: TEqualityComparator<
+    TPathValue<TComponent, path>
+  >;
+};
+
+/**
+ * Schedule mode of a callback
+ * microtask - the callback is executed after the current task
+ * animationFrame - the callback is executed before the next repaint
+ * idle - the callback is executed when the browser is idle
+ */
+export type TScheduleMode = 'microtask' | 'animationFrame' | 'idle';
+
+/**
+ * Scheduling options of a callback, if more than one is defined the priority is debounce, throttle and then schedule
+ * While the execution is pending, the changes summaries are merged keeping the oldest previousValue and the newest currentValue
+ * @property debounce {number} - the callback is executed once the group stops changing for the given milliseconds
+ * @property throttle {number} - the callback is executed at most once per the given milliseconds
+ * @property schedule {TScheduleMode} - the callback is executed in the given moment instead of synchronously
+ */
+export type TCallbackScheduling = {
+  debounce?: number;
+  throttle?: number;
+  schedule?: TScheduleMode;
+};
+
 /**
  * Callback configuration
  * @template TComponent - the component type
+ * @template TProperty - the properties of the group, the changes summary of the callback and the validator is narrowed to them
  * @property callback {TChangeCallback<TComponent>} - the callback to be executed when a change is detected
  * @property validator {TChangeCallbackValidator<TComponent>} - the callback to validate if the change should be executed
+ * @property comparator {TEqualityComparator} - the comparator used to compute the didChange of the properties of the group (default: Object.is)
+ * @property debounce, throttle, schedule - scheduling options of the callback, groups which share the same callback share its scheduling
+ * @property produces {(keyof TComponent)[]} - properties of the component computed by the callback, the groups which depend on them are executed after this one and receive their changes
+ * @property touches {(keyof TComponent)[]} - other fields of the component modified by the callback, together with the produced properties they are recorded by the snapshots
+ * @property priority {number} - (default: 0) callbacks with higher priority are executed first, the dependencies between the groups are always respected
+ * @property runOnFirstChange {boolean} - (default: the runOnFirstChange of the manager) if true, the first binding of the properties of the group also executes the callback
  */
-export type TCallbackConfig<TComponent extends object> = {
-  callback: TChangeCallback<TComponent>;
-  validator?: TChangeCallbackValidator<TComponent>;
+export type TCallbackConfig<
+  TComponent extends object,
+  TProperty extends TWatchedProperty<TComponent> = TWatchedProperty<TComponent>
+> = TCallbackScheduling & {
+  callback: TChangeCallback<TComponent, TProperty>;
+  validator?: TChangeCallbackValidator<TComponent, TProperty>;
+  comparator?: TEqualityComparator<any>;
+  produces?: (keyof TComponent)[];
+  touches?: (keyof TComponent)[];
+  priority?: number;
+  runOnFirstChange?: boolean;
 };
 
 /**
@@ -57,7 +291,38 @@ export type TCallbackConfig<TComponent extends object> = {
  * This type will contains the normalised callback configuration
  */
 export type TCallbacksConfig<TComponent extends object> =
-  | [(keyof TComponent)[], TCallbackConfig<TComponent>][];
+  | [TWatchedProperty<TComponent>[], TCallbackConfig<TComponent>][];
+
+/**
+ * Object form of the callbacks configuration parameter, the callbacks of each property receive the changes summary narrowed to it
+ * The mapped type is wrapped in a conditional type, so the array form is not contextually typed by its keys while the component type is inferred
+ * @template TComponent - the component type
+ */
+type TCallbacksConfigObject<TComponent extends object> =
+  TComponent extends object
+    ? {
+        [IProp in TGroupProperty<TComponent>]?:
+          | TCallbackConfig<TComponent, IProp>
+          | TChangeCallback<TComponent, IProp>
+          | (
+              | TCallbackConfig<TComponent, IProp>
+              | TChangeCallback<TComponent, IProp>
+            )[];
+      }
+    : never;
+
+/**
+ * Entry of the array form of the callbacks configuration parameter, the properties of the group and its callback
+ * The callback receives the changes summary narrowed to the input properties, create the entries with groupsOf to narrow it to the group
+ * @template TComponent - the component type
+ */
+export type TCallbacksConfigEntry<TComponent extends object> = [
+  TGroupProperty<TComponent>[],
+  (
+    | TCallbackConfig<TComponent, TGroupProperty<TComponent>>
+    | TChangeCallback<TComponent, TGroupProperty<TComponent>>
+  )
+];
 
 /**
  * Callbacks configuration parameter
@@ -83,17 +348,17 @@ export type TCallbacksConfig<TComponent extends object> =
  * ]
  *
  * // if both prop1 and prop2 changes, the callback will be executed just once
+ *
+ * Entries of the array with the same properties (in any order) are merged into a single group, its callbacks keep the configuration order
+ * Values of the object could also be an array of callbacks, all of them are added to the group of the property
+ *
+ * Only the input properties and their nested paths are allowed, the methods of the component are compile-time errors
+ * The callbacks of the object receive the changes summary narrowed to their property, the ones of the array to the input properties,
+ * or to the properties of their group if the entries are created with groupsOf
  */
 export type TCallbacksConfigParameter<TComponent extends object> =
-  | [
-      (keyof TComponent)[],
-      TCallbackConfig<TComponent> | TChangeCallback<TComponent>
-    ][]
-  | {
-      [IProp in keyof TComponent]?:
-        | TCallbackConfig<TComponent>
-        | TChangeCallback<TComponent>;
-    };
+  | TCallbacksConfigEntry<TComponent>[]
+  | TCallbacksConfigObject<TComponent>;
 
 /**
  * Properties by group
@@ -103,16 +368,339 @@ export type TCallbacksConfigParameter<TComponent extends object> =
  */
 export type TPropertiesByGroup<TComponent extends object> = Map<
   string,
-  Set<keyof TComponent>
+  Set<TWatchedProperty<TComponent>>
 >;
 
 /**
  * Callbacks by group
- * This type will contains the callbacks per group of properties
+ * This type will contains the callbacks per group of properties sorted by priority
  * For simple configuration the group of properties contains only one property
  * @template TComponent - the component type
  */
 export type TCallbacksByGroup<TComponent extends object> = Map<
   string,
-  TCallbackConfig<TComponent>
+  TCallbackConfig<TComponent>[]
+>;
+
+/**
+ * Signals source
+ * Signals which can be used as source of the changes instead of the SimpleChanges object, e.g. signal inputs
+ * @template TComponent - the component type
+ */
+export type TSignalsSource<TComponent extends object> = {
+  [key in keyof TComponent]?: () => unknown;
+};
+
+/**
+ * How the changes manager updates the view of the component
+ * - detectChanges: the view is checked synchronously
+ * - markForCheck: the view is marked to be checked in the next change detection cycle, e.g. OnPush or zoneless components
+ * - none: the manager doesn't update the view
+ * - a function which receives the change detector and the component and updates the view
+ * @template TComponent - the component type
+ */
+export type TDetectionStrategy<TComponent extends object> =
+  | 'detectChanges'
+  | 'markForCheck'
+  | 'none'
+  | ((changeDetector: TChangeDetector, component: TComponent) => void);
+
+/**
+ * Step of the execution of a callback in which an error was thrown
+ */
+export type TErrorPhase = 'validator' | 'callback' | 'detection';
+
+/**
+ * Context of an error thrown during the execution of the callbacks
+ * @template TComponent - the component type
+ * @property groupId {string} - the id of the group of the callback, its properties joined by '|', null for the detection
+ * @property phase {TErrorPhase} - if the error was thrown by a validator, by the callback itself or by the detection
+ * @property callback {TChangeCallback<TComponent>} - the callback which failed or which was being validated, null for the detection
+ */
+export type TErrorContext<TComponent extends object> = {
+  groupId: string;
+  phase: TErrorPhase;
+  callback: TChangeCallback<TComponent>;
+};
+
+/**
+ * Handler of the errors thrown during the execution of the callbacks
+ * @template TComponent - the component type
+ */
+export type TErrorHandler<TComponent extends object> = (
+  error: unknown,
+  context: TErrorContext<TComponent>
+) => void;
+
+/**
+ * What the manager does when a callback or a validator throws, the view is updated in any case
+ * - continue: the rest of the callbacks are executed and the execution succeeds
+ * - abort: the callbacks which didn't start yet are skipped and the execution fails with the error
+ * - rethrow-after: the rest of the callbacks are executed and then the execution fails with the first error
+ * With an onError handler the errors are handled, so the execution never fails
+ */
+export type TErrorPolicy = 'continue' | 'abort' | 'rethrow-after';
+
+/**
+ * Collects the errors of an execution of the callbacks
+ * @template TComponent - the component type
+ * @property report {TErrorHandler<TComponent>} - handles an error according to the error policy
+ * @property isAborted {Function} - returns true if the callbacks which didn't start yet should be skipped
+ * @property settle {Function} - throws the error which fails the execution, if any and if there is no onError handler
+ */
+export type TErrorsTracker<TComponent extends object> = {
+  report: TErrorHandler<TComponent>;
+  isAborted: () => boolean;
+  settle: () => void;
+};
+
+/**
+ * Parameters of the framework agnostic core of the changes manager
+ * @template TComponent - the component type
+ * @property component {TComponent} - the object whose properties are watched, e.g. a component, a service or a web component
+ * @property callbacks {TCallbacksConfigParameter<TComponent>} - configuration of the callbacks to be executed when the properties change
+ * @property debounceDelay {number} - debounce the execution of the manageChanges method to avoid multiple executions in a short period of time (default: 0)
+ * @property strict {boolean} - (default: true) if true, the detect changes method will be called only if changes are detected, otherwise it will be called always
+ * @property onChanges {Function} - callback to be executed after the changes are managed
+ * @property comparators {TComparatorsConfig<TComponent>} - equality comparators per property
+ * @property equality {TEqualityComparator} - (default: Object.is) equality comparator of the properties without comparator
+ * @property transforms {TTransformsConfig<TComponent>} - transforms per property, applied before the didChange is computed and written back to the component
+ * @property destroyRef {TDestroyRef} - the manager is destroyed together with the lifecycle
+ * @property historySize {number} - (default: 0) number of changes kept in the history of the manager, the history is disabled if 0
+ * @property snapshotsSize {number} - (default: 0) number of snapshots kept to undo the executions of the callbacks, the snapshots are disabled if 0
+ * @property runOnFirstChange {boolean} - (default: false) if true, the first binding of the properties also executes the callbacks, each group could override it
+ * @property onError {Function} - receives the errors thrown by the callbacks and by the validators, with the group and the phase in which they failed
+ * @property errorPolicy {TErrorPolicy} - (default: 'rethrow-after') what the manager does with the rest of the callbacks when one of them fails
+ * @property detect {Function} - updates the view once the callbacks settled, e.g. renders a web component, nothing is updated if not provided
+ * @property batchDetection {boolean} - (default: false) if true, the view is updated in the next frame together with the other managers instead of after each batch of callbacks
+ * @property diagnostics {boolean} - (default: true in Angular dev mode) if true, the manager warns about the configuration mistakes and collects the stats
+ */
+export type TChangesManagerCoreParameters<TComponent extends object> = {
+  component: TComponent;
+  destroyRef?: TDestroyRef;
+  callbacks?: TCallbacksConfigParameter<TComponent>;
+  debounceDelay?: number | null;
+  strict?: boolean;
+  onChanges?: (changesSummary: TChangesSummary<TComponent>) => void;
+  comparators?: TComparatorsConfig<TComponent>;
+  equality?: TEqualityComparator<any>;
+  transforms?: TTransformsConfig<TComponent>;
+  historySize?: number;
+  diagnostics?: boolean;
+  snapshotsSize?: number;
+  runOnFirstChange?: boolean;
+  onError?: TErrorHandler<TComponent>;
+  errorPolicy?: TErrorPolicy;
+  detect?: () => void;
+  batchDetection?: boolean;
+};
+
+/**
+ * Parameters of the changes manager of Angular components, same as the parameters of the core but the view is updated through the change detector
+ * @template TComponent - the component type
+ * @property changeDetectorRef {TChangeDetector} - reference to the change detector of the component
+ * @property destroyRef {TDestroyRef} - the manager is destroyed together with the DestroyRef, if not provided the DestroyRef of the current injection context is used when available
+ * @property detection {TDetectionStrategy<TComponent>} - (default: 'detectChanges') how the manager updates the view of the component
+ */
+export type TChangesManagerParameters<TComponent extends object> = Omit<
+  TChangesManagerCoreParameters<TComponent>,
+  'detect'
+> & {
+  changeDetectorRef: TChangeDetector;
+  detection?: TDetectionStrategy<TComponent>;
+};
+
+/**
+ * Defaults of the changes managers of an application, the parameters passed to each manager have priority over them
+ * @property strict {boolean} - default strict mode of the managers
+ * @property debounceDelay {number} - default debounce of the manageChanges of the managers
+ * @property detection {TDetectionStrategy<object>} - default detection strategy of the managers
+ * @property equality {TEqualityComparator} - default equality comparator of the properties without comparator
+ * @property diagnostics {boolean} - if the managers warn about the configuration mistakes and collect the stats, by default only in Angular dev mode
+ */
+export type TChangesManagerDefaults = Pick<
+  TChangesManagerParameters<object>,
+  'strict' | 'debounceDelay' | 'detection' | 'equality' | 'diagnostics'
 >;
+
+/**
+ * Parameters of the changes managers created with injectChangesManager, the change detector is injected
+ * @template TComponent - the component type
+ */
+export type TInjectChangesManagerParameters<TComponent extends object> = Omit<
+  TChangesManagerParameters<TComponent>,
+  'changeDetectorRef'
+>;
+
+/**
+ * Options of the manual execution of the callbacks
+ * @template TComponent - the component type
+ * @property props {TWatchedProperty<TComponent>[]} - only the groups which contain at least one of the properties are executed
+ * @property groups {TWatchedProperty<TComponent>[][]} - only the groups with exactly these properties (in any order) are executed
+ * @property force {boolean} - (default: false) executes the selected groups even if none of their properties changed
+ * @property avoidValidations {boolean} - (default: false) executes the callbacks without evaluating their validators
+ */
+export type TExecuteCallbacksOptions<TComponent extends object> = {
+  props?: TWatchedProperty<TComponent>[];
+  groups?: TWatchedProperty<TComponent>[][];
+  force?: boolean;
+  avoidValidations?: boolean;
+};
+
+/**
+ * Options of an execution of the callbacks pipeline
+ * @property groupIds {Set<string>} - only these groups are executed, all the groups if not provided
+ * @property force {boolean} - the groups are executed even if none of their properties changed
+ * @property avoidValidations {boolean} - the validators of the callbacks are not evaluated
+ */
+export type TExecutionOptions = {
+  groupIds?: Set<string>;
+  force?: boolean;
+  avoidValidations?: boolean;
+};
+
+/**
+ * Entry of the history of the changes manager
+ * @template TComponent - the component type
+ * @property timestamp {number} - the moment in which the changes were managed
+ * @property changesSummary {TChangesSummary<TComponent>} - the changes summary which was processed
+ * @property firedGroups {string[]} - the ids of the groups which fired, even if their validators rejected the callbacks
+ * @property executedCallbacks {TChangeCallback<TComponent>[]} - the callbacks which ran, scheduled callbacks are added once they run
+ * @property rejectedValidators {TChangeCallbackValidator<TComponent>[]} - the validators which prevented the execution of a callback
+ */
+export type THistoryEntry<TComponent extends object> = {
+  timestamp: number;
+  changesSummary: TChangesSummary<TComponent>;
+  firedGroups: string[];
+  executedCallbacks: TChangeCallback<TComponent>[];
+  rejectedValidators: TChangeCallbackValidator<TComponent>[];
+};
+
+/**
+ * Snapshot of the fields touched by the callbacks, taken before an execution to undo it
+ * @template TComponent - the component type
+ * @property timestamp {number} - the moment in which the snapshot was taken
+ * @property values {Map<keyof TComponent, unknown>} - the values of the produced and touched fields of the groups which were going to fire
+ */
+export type TSnapshot<TComponent extends object> = {
+  timestamp: number;
+  values: Map<keyof TComponent, unknown>;
+};
+
+/**
+ * Options of the OnInputChange decorator, same as the callback configuration but the callback is the decorated method
+ * @template TComponent - the component type
+ */
+export type TOnInputChangeOptions<TComponent extends object> = Omit<
+  TCallbackConfig<TComponent>,
+  'callback'
+>;
+
+/**
+ * Metadata registered by the OnInputChange decorator
+ * @template TComponent - the component type
+ * @property properties {TWatchedProperty<TComponent>[]} - the group of properties which trigger the method
+ * @property methodName {string | symbol} - the name of the decorated method
+ */
+export type TInputChangeMetadata<TComponent extends object> =
+  TOnInputChangeOptions<TComponent> & {
+    properties: TWatchedProperty<TComponent>[];
+    methodName: string | symbol;
+  };
+
+/**
+ * Options of the ManagedChanges decorator, same as the changes manager parameters but the component and the callbacks are computed from the class
+ * @template TComponent - the component type
+ * @property changeDetectorRef {string} - (default: 'changeDetectorRef') name of the component property which holds the ChangeDetectorRef
+ */
+export type TManagedChangesOptions<TComponent extends object> = Omit<
+  TChangesManagerParameters<TComponent>,
+  'component' | 'changeDetectorRef' | 'callbacks'
+> & {
+  changeDetectorRef?: string;
+};
+
+/**
+ * Debounced function
+ * Every call returns a promise which resolves with the result of the execution which finally happens
+ * @property flush {Function} - executes the pending call immediately
+ * @property cancel {Function} - drops the pending call, its promises resolve with undefined
+ */
+export type TDebouncedFunction<TArgs extends unknown[], TResult> = ((
+  ...args: TArgs
+) => Promise<Awaited<TResult>>) & {
+  flush: () => void;
+  cancel: () => void;
+};
+
+/**
+ * Execution of a scheduled callback which is waiting to be executed
+ * @template TComponent - the component type
+ * @property changesSummary {TChangesSummary<TComponent>} - the merged changes summary of all the changes received while waiting
+ * @property validators {Set<TChangeCallbackValidator<TComponent>>} - the validators of the groups which triggered the execution
+ * @property promise {Promise<void>} - resolves once the execution settles
+ * @property cancel {Function} - cancels the scheduled task
+ * @property historyEntry {THistoryEntry<TComponent>} - the history entry of the latest changes which requested the execution
+ */
+export type TPendingExecution<TComponent extends object> = {
+  changesSummary: TChangesSummary<TComponent>;
+  validators: Set<TChangeCallbackValidator<TComponent>>;
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  cancel: () => void;
+  historyEntry: THistoryEntry<TComponent>;
+};
+
+/**
+ * Execution stats of a callback, the time of the async callbacks is measured until they settle
+ * @property name {string} - the name of the callback function
+ * @property executions {number} - number of executions of the callback
+ * @property totalTime {number} - total time spent in the callback in milliseconds
+ * @property averageTime {number} - average time per execution in milliseconds
+ * @property maxTime {number} - slowest execution in milliseconds
+ */
+export type TCallbackStats = {
+  name: string;
+  executions: number;
+  totalTime: number;
+  averageTime: number;
+  maxTime: number;
+};
+
+/**
+ * Diagnostics of the changes manager, only collected in dev mode
+ * @template TComponent - the component type
+ * @property manageChanges {number} - number of executions of the manageChanges
+ * @property detectChanges {number} - number of executions of the detectChanges
+ * @property callbacks {Map<TChangeCallback<TComponent>, TCallbackStats>} - execution stats per callback
+ * @property unusedGroups {string[]} - ids of the groups which never fired
+ */
+export type TChangesManagerStats<TComponent extends object> = {
+  manageChanges: number;
+  detectChanges: number;
+  callbacks: Map<TChangeCallback<TComponent>, TCallbackStats>;
+  unusedGroups: string[];
+};
+
+/**
+ * Inputs simulated by the testing helpers, each property receives its previous and current values
+ * @template TComponent - the component type
+ */
+export type TSimulatedInputs<TComponent extends object> = {
+  [key in keyof TComponent]?: [
+    previousValue: TComponent[key],
+    currentValue: TComponent[key]
+  ];
+};
+
+/**
+ * Parameters of a changes manager created for testing, the changeDetectorRef is optional
+ * @template TComponent - the component type
+ */
+export type TTestChangesManagerParameters<TComponent extends object> = Omit<
+  TChangesManagerParameters<TComponent>,
+  'changeDetectorRef'
+> & {
+  changeDetectorRef?: TChangeDetector;
+};
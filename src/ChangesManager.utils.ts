@@ -1,30 +1,172 @@
-import { SimpleChange, SimpleChanges } from '@angular/core';
-import { TChangesSummary } from './ChangesManager.types';
+import {
+  TChangesSummary,
+  TComparatorsConfig,
+  TDebouncedFunction,
+  TEqualityComparator,
+  TScheduleMode,
+  TSimpleChange,
+  TSimpleChanges,
+  TTransform,
+  TTransformsConfig,
+} from './ChangesManager.types';
+
+/**
+ * Creates the change of a property
+ * @param previousValue - the previous value
+ * @param currentValue - the current value
+ * @param firstChange - true if it's the first value received by the property
+ */
+export const createSimpleChange = (
+  previousValue: unknown,
+  currentValue: unknown,
+  firstChange: boolean
+): TSimpleChange => ({ previousValue, currentValue, firstChange });
 
 /**
  * Return true if the simple change really changed
  * avoid the first change
+ * @param simpleChange - the simple change to evaluate
+ * @param comparator - (default: Object.is) returns true if the previous and current values should be considered the same
  */
-export const didPropertyChange = (simpleChange: SimpleChange): boolean => {
+export const didPropertyChange = (
+  simpleChange: TSimpleChange,
+  comparator: TEqualityComparator<any> = Object.is
+): boolean => {
   const { previousValue, currentValue, firstChange } = simpleChange ?? {};
   const shouldIgnoreChange = firstChange || simpleChange === undefined;
 
   if (shouldIgnoreChange) return false;
 
-  const isValueTheSame = Object.is(currentValue, previousValue);
+  const isValueTheSame = comparator(previousValue, currentValue);
   if (isValueTheSame) return false;
 
   return true;
 };
 
+/**
+ * Returns the value of a nested property, undefined if some of the intermediate values is null or undefined
+ * @param value - the root value
+ * @param path - the dot path of the nested property, e.g. 'filters.date'
+ */
+export const getPathValue = (value: unknown, path: string): unknown => {
+  return path
+    .split('.')
+    .reduce(
+      (accumulator, key) =>
+        accumulator == null ? undefined : accumulator[key],
+      value
+    );
+};
+
+/**
+ * Returns the changes of the dot paths whose root property is part of the changes summary
+ * The changes of the paths are computed comparing the nested values of the root property, so a path only changes if its leaf changes
+ * @param changesSummary - the changes summary of the root properties
+ * @param paths - the dot paths to compute, e.g. 'config.filters.date'
+ * @param comparators - equality comparators per path
+ * @param equality - (default: Object.is) equality comparator of the paths without comparator
+ */
+export const getPathsChangesSummary = <TComponent extends object>(
+  changesSummary: TChangesSummary<TComponent>,
+  paths: string[],
+  comparators: TComparatorsConfig<TComponent> = {},
+  equality: TEqualityComparator<any> = Object.is
+): TChangesSummary<TComponent> => {
+  return paths.reduce((accumulator, path) => {
+    const [property, ...nestedPath] = path.split('.');
+    const change = changesSummary[property];
+
+    if (!change) return accumulator;
+
+    const simpleChange = createSimpleChange(
+      getPathValue(change.previousValue, nestedPath.join('.')),
+      getPathValue(change.currentValue, nestedPath.join('.')),
+      change.firstChange
+    );
+
+    return {
+      ...accumulator,
+      [path]: {
+        ...simpleChange,
+        didChange: didPropertyChange(
+          simpleChange,
+          comparators[path] ?? equality
+        ),
+      },
+    };
+  }, {} as TChangesSummary<TComponent>);
+};
+
+/**
+ * Returns the id of the group of the properties, the properties are sorted so the order of the configuration doesn't matter
+ * @param properties - the properties of the group
+ */
+export const getGroupId = <TProperty>(properties: TProperty[]): string =>
+  [...properties].sort().join('|');
+
+/**
+ * Applies the transforms to the values of the simple changes, the received value is kept as the rawValue of the change
+ * The previous value of the first change is not transformed, it was never received by the component
+ * @param simpleChanges - the changes per property, e.g. the SimpleChanges object of Angular
+ * @param transforms - transforms per property, properties without transform are not modified
+ */
+export const transformSimpleChanges = <TComponent extends object>(
+  simpleChanges: TSimpleChanges,
+  transforms: TTransformsConfig<TComponent> = {}
+): TSimpleChanges => {
+  return Object.keys(simpleChanges).reduce(
+    (accumulator, property) => {
+      const transform = transforms[property] as TTransform<unknown>;
+      if (!transform) return accumulator;
+
+      const { previousValue, currentValue, firstChange } =
+        simpleChanges[property];
+
+      return {
+        ...accumulator,
+        [property]: {
+          ...createSimpleChange(
+            firstChange ? previousValue : transform(previousValue),
+            transform(currentValue),
+            firstChange
+          ),
+          rawValue: currentValue,
+        },
+      };
+    },
+    { ...simpleChanges }
+  );
+};
+
+/**
+ * Returns the comparators defined by the transforms, e.g. the dates created by the toDate transform are compared by time
+ * @param transforms - transforms per property, properties whose transform has no comparator are not included
+ */
+export const getTransformsComparators = <TComponent extends object>(
+  transforms: TTransformsConfig<TComponent>
+): TComparatorsConfig<TComponent> => {
+  return Object.keys(transforms).reduce((accumulator, property) => {
+    const { comparator } = transforms[property] as TTransform<unknown>;
+    if (!comparator) return accumulator;
+
+    return { ...accumulator, [property]: comparator };
+  }, {} as TComparatorsConfig<TComponent>);
+};
+
 /**
  * Add and extra property to the simple changes object to indicate if the property changed
  * didChange: boolean - true if the property changed
- * @param simpleChanges - SimpleChanges object from @angular/core
- * @returns TChangesSummary - SimpleChanges object with an extra property to indicate if the property really changed
+ * @param simpleChanges - the changes per property, e.g. the SimpleChanges object of Angular
+ * @param comparators - equality comparators per property
+ * @param paths - dot paths of nested properties which are added to the summary, e.g. 'config.filters.date'
+ * @param equality - (default: Object.is) equality comparator of the properties without comparator
+ * @returns TChangesSummary - the changes with an extra property to indicate if the property really changed
  */
 export const getChangesSummary = <TComponent extends object>(
-  simpleChanges: SimpleChanges
+  simpleChanges: TSimpleChanges,
+  comparators: TComparatorsConfig<TComponent> = {},
+  paths: string[] = [],
+  equality: TEqualityComparator<any> = Object.is
 ): TChangesSummary<TComponent> => {
   const properties = Object.keys(simpleChanges);
 
@@ -35,12 +177,219 @@ export const getChangesSummary = <TComponent extends object>(
       ...accumulator,
       [property]: {
         ...simpleChange,
-        didChange: didPropertyChange(simpleChange),
+        didChange: didPropertyChange(
+          simpleChange,
+          comparators[property] ?? equality
+        ),
       },
     };
   }, {} as TChangesSummary<TComponent>);
 
-  return changesSummary;
+  if (!paths.length) return changesSummary;
+
+  return {
+    ...changesSummary,
+    ...getPathsChangesSummary(changesSummary, paths, comparators, equality),
+  };
+};
+
+/**
+ * Merges two simple changes objects keeping the oldest previousValue and firstChange, and the newest currentValue of each property
+ * @param pendingChanges - the simple changes which are waiting to be processed
+ * @param simpleChanges - the newest simple changes
+ */
+export const mergeSimpleChanges = (
+  pendingChanges: TSimpleChanges,
+  simpleChanges: TSimpleChanges
+): TSimpleChanges => {
+  if (!pendingChanges) return simpleChanges;
+
+  return Object.keys(simpleChanges).reduce(
+    (accumulator, property) => {
+      const pendingChange = pendingChanges[property];
+      const simpleChange = simpleChanges[property];
+
+      if (!pendingChange) {
+        return { ...accumulator, [property]: simpleChange };
+      }
+
+      const mergedChange = createSimpleChange(
+        pendingChange.previousValue,
+        simpleChange.currentValue,
+        pendingChange.firstChange
+      );
+
+      // the changes could be already transformed, the newest received value is kept
+      return {
+        ...accumulator,
+        [property]:
+          'rawValue' in simpleChange
+            ? { ...mergedChange, rawValue: simpleChange.rawValue }
+            : mergedChange,
+      };
+    },
+    { ...pendingChanges }
+  );
+};
+
+/**
+ * Merges two changes summaries keeping the oldest previousValue and firstChange, and the newest currentValue of each property
+ * A property is marked as changed if it changed in any of the summaries, so no change is dropped
+ * @param pendingSummary - the changes summary which is waiting to be processed
+ * @param changesSummary - the newest changes summary
+ */
+export const mergeChangesSummaries = <TComponent extends object>(
+  pendingSummary: TChangesSummary<TComponent>,
+  changesSummary: TChangesSummary<TComponent>
+): TChangesSummary<TComponent> => {
+  if (!pendingSummary) return changesSummary;
+
+  return Object.keys(changesSummary).reduce(
+    (accumulator, property) => {
+      const pendingChange = pendingSummary[property];
+      const change = changesSummary[property];
+
+      if (!pendingChange) {
+        return { ...accumulator, [property]: change };
+      }
+
+      return {
+        ...accumulator,
+        [property]: {
+          ...change,
+          previousValue: pendingChange.previousValue,
+          firstChange: pendingChange.firstChange,
+          didChange: pendingChange.didChange || change.didChange,
+        },
+      };
+    },
+    { ...pendingSummary }
+  );
+};
+
+/**
+ * Schedules the execution of a task
+ * @param task - the task to execute
+ * @param schedule - the schedule mode, or the delay in milliseconds
+ * @returns a function to cancel the task
+ */
+export const scheduleTask = (
+  task: () => void,
+  schedule: TScheduleMode | number
+): (() => void) => {
+  if (schedule === 'microtask') {
+    let isCancelled = false;
+
+    queueMicrotask(() => {
+      if (!isCancelled) task();
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }
+
+  if (
+    schedule === 'animationFrame' &&
+    typeof requestAnimationFrame === 'function'
+  ) {
+    const frame = requestAnimationFrame(task);
+
+    return () => cancelAnimationFrame(frame);
+  }
+
+  if (schedule === 'idle' && typeof requestIdleCallback === 'function') {
+    const idleCallback = requestIdleCallback(task);
+
+    return () => cancelIdleCallback(idleCallback);
+  }
+
+  // if the environment doesn't support the schedule mode we fallback to a timeout
+  const delay = typeof schedule === 'number' ? schedule : 0;
+  const timer = setTimeout(task, delay);
+
+  return () => clearTimeout(timer);
+};
+
+/**
+ * Sorts the groups so the groups which produce a property are placed before the groups which depend on it
+ * Independent groups keep their original order
+ * @param groups - map where the key is the group id and the value contains the properties of the group and the properties it produces
+ * @returns the sorted group ids
+ * @throws if there is a cyclic dependency between the groups
+ */
+export const sortGroupsByDependencies = <TProperty>(
+  groups: Map<string, { properties: Set<TProperty>; produces: Set<TProperty> }>
+): string[] => {
+  const groupIds = Array.from(groups.keys());
+
+  const dependenciesByGroup = new Map(
+    groupIds.map((groupId) => {
+      const { properties } = groups.get(groupId);
+
+      const dependencies = groupIds.filter((dependencyId) =>
+        Array.from(groups.get(dependencyId).produces).some((property) =>
+          properties.has(property)
+        )
+      );
+
+      return [groupId, dependencies];
+    })
+  );
+
+  const sortedGroupIds: string[] = [];
+  const visitedGroups = new Set<string>();
+  const visitingGroups: string[] = [];
+
+  const visit = (groupId: string) => {
+    if (visitedGroups.has(groupId)) return;
+
+    if (visitingGroups.includes(groupId)) {
+      const cycle = [
+        ...visitingGroups.slice(visitingGroups.indexOf(groupId)),
+        groupId,
+      ];
+
+      throw new Error(
+        `ChangesManager: cyclic dependency between the callback groups ${cycle
+          .map((id) => `[${id}]`)
+          .join(' -> ')}`
+      );
+    }
+
+    visitingGroups.push(groupId);
+    dependenciesByGroup.get(groupId).forEach(visit);
+    visitingGroups.pop();
+
+    visitedGroups.add(groupId);
+    sortedGroupIds.push(groupId);
+  };
+
+  groupIds.forEach(visit);
+
+  return sortedGroupIds;
+};
+
+/**
+ * Returns the descriptor of the property looking in the prototype chain of the target
+ * @param target - the object which contains the property
+ * @param property - the name of the property
+ * @returns the descriptor, undefined if the property doesn't exist
+ */
+export const getPropertyDescriptor = (
+  target: object,
+  property: PropertyKey
+): PropertyDescriptor => {
+  let prototype = target;
+
+  while (prototype) {
+    const descriptor = Object.getOwnPropertyDescriptor(prototype, property);
+    if (descriptor) return descriptor;
+
+    prototype = Object.getPrototypeOf(prototype);
+  }
+
+  return undefined;
 };
 
 /**
@@ -54,27 +403,104 @@ export const tryComponentSimpleChange = <
   simpleChange,
   callback,
   component,
+  comparator,
 }: {
-  simpleChange: SimpleChange;
+  simpleChange: TSimpleChange;
   callback: TFunction;
   component: TComponent;
+  comparator?: TEqualityComparator<TValue>;
 }): boolean => {
-  if (!didPropertyChange(simpleChange)) return false;
+  if (!didPropertyChange(simpleChange, comparator)) return false;
   const { currentValue } = simpleChange;
 
-  callback.call(component, currentValue);
+  callback.call(component, currentValue as TValue);
   return true;
 };
 
+/**
+ * Return true if the value is a promise like object
+ */
+export const isPromiseLike = <T = unknown>(
+  value: unknown
+): value is PromiseLike<T> => {
+  return typeof (value as PromiseLike<T>)?.then === 'function';
+};
+
 /**
  * Debounce the execution of a function
+ * Returns a promise which resolves with the result of the execution, calls superseded by a later one resolve with the result of the later call
+ * The returned function exposes flush to execute the pending call immediately, and cancel to drop it (the pending promises resolve with undefined)
+ * @param callback - the function to debounce
+ * @param wait - the delay in milliseconds
+ * @param mergeArgs - (default: keeps the newest arguments) allows to combine the arguments of the superseded calls with the newest ones
  */
-export const debounce = <T extends Function>(callback: T, wait = 300): T => {
-  let timer: NodeJS.Timeout;
-  return ((...args: unknown[]) => {
+export const debounce = <TArgs extends unknown[], TResult>(
+  callback: (...args: TArgs) => TResult,
+  wait = 300,
+  mergeArgs: (pendingArgs: TArgs, args: TArgs) => TArgs = (_, args) => args
+): TDebouncedFunction<TArgs, TResult> => {
+  let timer: NodeJS.Timeout = null;
+  let pendingArgs: TArgs = null;
+
+  let subscribers: {
+    resolve: (value: Awaited<TResult>) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+
+  const execute = () => {
+    const currentSubscribers = subscribers;
+    const args = pendingArgs;
+
     clearTimeout(timer);
-    timer = setTimeout(() => {
-      callback(...args);
-    }, wait);
-  }) as unknown as T;
+    timer = null;
+    pendingArgs = null;
+    subscribers = [];
+
+    let result: TResult;
+
+    try {
+      result = callback(...args);
+    } catch (error) {
+      currentSubscribers.forEach((subscriber) => subscriber.reject(error));
+
+      return;
+    }
+
+    Promise.resolve(result).then(
+      (value) =>
+        currentSubscribers.forEach((subscriber) =>
+          subscriber.resolve(value as Awaited<TResult>)
+        ),
+      (error) =>
+        currentSubscribers.forEach((subscriber) => subscriber.reject(error))
+    );
+  };
+
+  const debounced = (...args: TArgs) =>
+    new Promise<Awaited<TResult>>((resolve, reject) => {
+      subscribers.push({ resolve, reject });
+      pendingArgs = pendingArgs ? mergeArgs(pendingArgs, args) : args;
+
+      clearTimeout(timer);
+      timer = setTimeout(execute, wait);
+    });
+
+  const flush = () => {
+    if (timer === null) return;
+
+    execute();
+  };
+
+  const cancel = () => {
+    const currentSubscribers = subscribers;
+
+    clearTimeout(timer);
+    timer = null;
+    pendingArgs = null;
+    subscribers = [];
+
+    currentSubscribers.forEach((subscriber) => subscriber.resolve(undefined));
+  };
+
+  return Object.assign(debounced, { flush, cancel });
 };
@@ -0,0 +1,182 @@
+import {
+  TChange,
+  TChangeCallbackValidator,
+  TGroupChangesSummary,
+} from './ChangesManager.types';
+
+/**
+ * Returns the change of the property, undefined if the property is not part of the changes summary
+ */
+const getChange = <TComponent extends object, TKey extends keyof TComponent>(
+  changesSummary: TGroupChangesSummary<TComponent>,
+  property: TKey
+): TChange<TComponent[TKey]> =>
+  (changesSummary as Record<TKey, TChange<TComponent[TKey]>>)?.[property];
+
+/**
+ * Return true if the value is the expected one, the expected value could also be a predicate
+ */
+const isExpectedValue = <TValue>(
+  value: TValue,
+  expected: TValue | ((value: TValue) => boolean)
+) =>
+  typeof expected === 'function'
+    ? (expected as (value: TValue) => boolean)(value)
+    : Object.is(value, expected);
+
+/**
+ * Creates a validator which passes if the current value of all the properties is not null or undefined
+ * Properties which are not part of the changes summary don't pass
+ * @param properties - the properties to check
+ */
+const notNil =
+  <TComponent extends object>(
+    ...properties: (keyof TComponent)[]
+  ): TChangeCallbackValidator<TComponent> =>
+  (changesSummary) =>
+    properties.every(
+      (property) => getChange(changesSummary, property)?.currentValue != null
+    );
+
+/**
+ * Creates a validator which passes if all the properties changed
+ * @param properties - the properties to check
+ */
+const changedAll =
+  <TComponent extends object>(
+    properties: (keyof TComponent)[]
+  ): TChangeCallbackValidator<TComponent> =>
+  (changesSummary) =>
+    properties.every(
+      (property) => getChange(changesSummary, property)?.didChange ?? false
+    );
+
+/**
+ * Creates a validator which passes if at least one of the properties changed
+ * @param properties - the properties to check
+ */
+const changedAny =
+  <TComponent extends object>(
+    properties: (keyof TComponent)[]
+  ): TChangeCallbackValidator<TComponent> =>
+  (changesSummary) =>
+    properties.some(
+      (property) => getChange(changesSummary, property)?.didChange ?? false
+    );
+
+/**
+ * Creates a validator which passes if all the validators pass, the validators are evaluated in order until one fails
+ * @param validators - the validators to combine
+ */
+const and =
+  <TComponent extends object>(
+    ...validators: TChangeCallbackValidator<TComponent>[]
+  ): TChangeCallbackValidator<TComponent> =>
+  (changesSummary) =>
+    validators.every((validator) => validator(changesSummary));
+
+/**
+ * Creates a validator which passes if at least one of the validators passes, the validators are evaluated in order until one passes
+ * @param validators - the validators to combine
+ */
+const or =
+  <TComponent extends object>(
+    ...validators: TChangeCallbackValidator<TComponent>[]
+  ): TChangeCallbackValidator<TComponent> =>
+  (changesSummary) =>
+    validators.some((validator) => validator(changesSummary));
+
+/**
+ * Creates a validator which passes if the validator fails
+ * @param validator - the validator to negate
+ */
+const not =
+  <TComponent extends object>(
+    validator: TChangeCallbackValidator<TComponent>
+  ): TChangeCallbackValidator<TComponent> =>
+  (changesSummary) =>
+    !validator(changesSummary);
+
+/**
+ * Creates a validator which passes if the current value of the property satisfies the predicate
+ * Properties which are not part of the changes summary don't pass
+ * @param property - the property to check
+ * @param predicate - receives the current value and the change of the property
+ */
+const matches =
+  <TComponent extends object, TKey extends keyof TComponent>(
+    property: TKey,
+    predicate: (
+      currentValue: TComponent[TKey],
+      change: TChange<TComponent[TKey]>
+    ) => boolean
+  ): TChangeCallbackValidator<TComponent> =>
+  (changesSummary) => {
+    const change = getChange(changesSummary, property);
+    if (!change) return false;
+
+    return predicate(change.currentValue, change);
+  };
+
+/**
+ * Creates a validator which passes if the property changed from a value to another one
+ * The values could also be predicates, e.g. to check a transition from any value to null
+ * @param property - the property to check
+ * @param from - the expected previous value
+ * @param to - the expected current value
+ */
+const transitioned =
+  <TComponent extends object, TKey extends keyof TComponent>(
+    property: TKey,
+    from: TComponent[TKey] | ((value: TComponent[TKey]) => boolean),
+    to: TComponent[TKey] | ((value: TComponent[TKey]) => boolean)
+  ): TChangeCallbackValidator<TComponent> =>
+  (changesSummary) => {
+    const change = getChange(changesSummary, property);
+    if (!change?.didChange) return false;
+
+    return (
+      isExpectedValue(change.previousValue, from) &&
+      isExpectedValue(change.currentValue, to)
+    );
+  };
+
+/**
+ * Built-in validators which can be composed to decide if a callback should be executed
+ * @property notNil - the current value of all the properties is not null or undefined
+ * @property changedAll - all the properties changed
+ * @property changedAny - at least one of the properties changed
+ * @property and - all the validators pass
+ * @property or - at least one of the validators passes
+ * @property not - the validator fails
+ * @property matches - the current value of the property satisfies the predicate
+ * @property transitioned - the property changed from a value to another one
+ * @example
+ * new ChangesManager({
+ *   component: this,
+ *   changeDetectorRef,
+ *   callbacks: [
+ *     [['userId', 'filters'], {
+ *       callback: this.loadOrders,
+ *       validator: validators.and(
+ *         validators.notNil('userId'),
+ *         validators.not(validators.matches('filters', (filters) => filters.length === 0))
+ *       ),
+ *     }],
+ *     [['status'], {
+ *       callback: this.onCompleted,
+ *       validator: validators.transitioned('status', 'pending', 'completed'),
+ *     }],
+ *   ],
+ * });
+ */
+export const validators = {
+  notNil,
+  changedAll,
+  changedAny,
+  and,
+  or,
+  not,
+  matches,
+  transitioned,
+};
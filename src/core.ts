@@ -0,0 +1,8 @@
+export * from './ChangesManager.core';
+export * from './ChangesManager.types';
+export * from './ChangesManager.utils';
+export * from './ChangesManager.comparators';
+export * from './ChangesManager.validators';
+export * from './ChangesManager.groups';
+export * from './ChangesManager.transforms';
+export * from './ChangesManager.scheduler';
@@ -1,3 +1,7 @@
+export * from './core';
 export * from './ChangesManager';
-export * from './ChangesManager.types';
-export * from './ChangesManager.utils';
+export * from './ChangesManager.decorators';
+export {
+  CHANGES_MANAGER_DEFAULTS,
+  provideChangesManagerDefaults,
+} from './ChangesManager.providers';
@@ -1,14 +1,62 @@
 const path = require('path');
 const { CleanWebpackPlugin } = require('clean-webpack-plugin');
 
+/**
+ * Modules of the framework agnostic core, they are only bundled in the core entry point
+ */
+const coreModules = [
+  './core',
+  './ChangesManager.core',
+  './ChangesManager.types',
+  './ChangesManager.utils',
+  './ChangesManager.comparators',
+  './ChangesManager.validators',
+  './ChangesManager.groups',
+  './ChangesManager.transforms',
+  './ChangesManager.scheduler',
+  './ChangesManager.diagnostics',
+];
+
+const isCoreModule = (request) => coreModules.includes(request);
+
+const isCoreIssuer = (issuer) =>
+  isCoreModule(`./${path.basename(issuer ?? '', '.ts')}`);
+
+/**
+ * The entry points import the ones they build on as externals, so the core (and the shared detection scheduler)
+ * and the ChangesManager class exist once no matter how many entry points are loaded
+ */
+const entryPointsExternals = ({ request, contextInfo }, callback) => {
+  const { issuer } = contextInfo;
+
+  if (isCoreModule(request) && !isCoreIssuer(issuer)) {
+    return callback(null, 'angular-changes-manager/core');
+  }
+
+  const isTestingIssuer = issuer?.endsWith('ChangesManager.testing.ts');
+
+  if (request === './ChangesManager' && isTestingIssuer) {
+    return callback(null, 'angular-changes-manager');
+  }
+
+  callback();
+};
+
 module.exports = {
   mode: 'production',
   entry: {
     bundle: './src/index.ts',
+    core: './src/core.ts',
+    testing: './src/ChangesManager.testing.ts',
   },
-  externals: {
-    '@angular/core': '@angular/core',
-  },
+  externals: [
+    {
+      '@angular/core': '@angular/core',
+      rxjs: 'rxjs',
+      'rxjs/operators': 'rxjs/operators',
+    },
+    entryPointsExternals,
+  ],
   output: {
     path: path.resolve(__dirname, 'lib'),
     filename: ({ chunk: { name } }) => {